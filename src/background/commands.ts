@@ -0,0 +1,133 @@
+import { SiteSettings, UserStorage } from '../types/storage';
+import {
+    setSiteSettings,
+    setGlobalSettings,
+    addGlobalBlocklistEntry,
+    removeGlobalBlocklistEntry,
+    setPaused,
+    copyTypography,
+    extractDomain,
+    readStorageQueued
+} from '../utils/storage';
+import { findMatchingRule, resolveSettings, findBlocklistEntries } from '../utils/siteMatcher';
+import { linkPreset } from '../utils/presetLink';
+import { pushToTab, pushToAllTabs } from './tabState';
+
+// 단축키로 조절하는 스타일 (팝업 슬라이더 범위와 동일)
+const STYLE_STEPS = {
+    fontSizeScale: { min: 0.8, max: 1.6, step: 0.05 },
+    lineHeight: { min: 1, max: 3, step: 0.1 },
+};
+
+type SteppedStyle = keyof typeof STYLE_STEPS;
+
+// 단축키로 수정할 설정 (사이트 규칙이 있으면 사이트, 없으면 적용 중인 전역 설정)
+type CommandTarget =
+    | { kind: 'site'; pattern: string; settings: SiteSettings }
+    | { kind: 'global'; settings: SiteSettings };
+
+function findCommandTarget(url: string, storage: UserStorage): CommandTarget | null {
+    const match = findMatchingRule(url, storage.siteSettings);
+    if (match) {
+        return { kind: 'site', pattern: match.pattern, settings: match.settings };
+    }
+
+    const resolved = resolveSettings(url, storage);
+    return resolved ? { kind: 'global', settings: resolved.settings } : null;
+}
+
+async function saveTarget(target: CommandTarget, settings: SiteSettings): Promise<void> {
+    if (target.kind === 'site') {
+        await setSiteSettings(target.pattern, settings, target.settings);
+    } else {
+        await setGlobalSettings(settings, target.settings);
+    }
+}
+
+// 현재 사이트 켜기/끄기 (전역 설정만 적용 중이면 전역 설정 제외 목록으로 전환)
+async function toggleSite(url: string, domain: string, storage: UserStorage): Promise<void> {
+    const target = findCommandTarget(url, storage);
+
+    if (target?.kind === 'site') {
+        await saveTarget(target, { ...target.settings, isActive: !target.settings.isActive });
+    } else if (target?.kind === 'global') {
+        await addGlobalBlocklistEntry(domain);
+    } else if (storage.globalSettings?.isActive) {
+        for (const entry of findBlocklistEntries(url, storage.globalBlocklist)) {
+            await removeGlobalBlocklistEntry(entry);
+        }
+    }
+}
+
+// 다음 프리셋 적용 (연결된 프리셋 또는 현재 설정과 같은 프리셋의 다음 것, 없으면 첫 번째)
+// 사이트는 프리셋에 연결하고, 전역 설정은 값만 복사
+async function applyNextPreset(url: string, storage: UserStorage): Promise<void> {
+    const target = findCommandTarget(url, storage);
+    if (!target || storage.presets.length === 0) return;
+
+    const current = JSON.stringify(copyTypography(target.settings));
+    const index = target.settings.presetId
+        ? storage.presets.findIndex(preset => preset.id === target.settings.presetId)
+        : storage.presets.findIndex(preset => JSON.stringify(copyTypography(preset)) === current);
+    const next = storage.presets[(index + 1) % storage.presets.length];
+
+    await saveTarget(target, target.kind === 'site'
+        ? linkPreset(target.settings, next)
+        : { ...target.settings, ...copyTypography(next) });
+}
+
+// 글자 크기/행간 한 단계 조절
+async function stepStyle(url: string, storage: UserStorage, key: SteppedStyle, direction: 1 | -1): Promise<void> {
+    const target = findCommandTarget(url, storage);
+    if (!target) return;
+
+    const { min, max, step } = STYLE_STEPS[key];
+    const value = target.settings.styles[key] + step * direction;
+    // 부동소수점 오차 제거
+    const clamped = Math.round(Math.min(max, Math.max(min, value)) * 100) / 100;
+    if (clamped === target.settings.styles[key]) return;
+
+    await saveTarget(target, {
+        ...target.settings,
+        styles: { ...target.settings.styles, [key]: clamped }
+    });
+}
+
+// 단축키 처리
+export async function handleCommand(command: string, tab?: chrome.tabs.Tab): Promise<void> {
+    const storage = await readStorageQueued();
+
+    if (command === 'toggle-pause') {
+        await setPaused(!storage.isPaused);
+        await pushToAllTabs();
+        return;
+    }
+
+    const domain = tab?.url ? extractDomain(tab.url) : null;
+    if (tab?.id === undefined || !tab.url || !domain) return;
+
+    switch (command) {
+        case 'toggle-site':
+            await toggleSite(tab.url, domain, storage);
+            break;
+        case 'next-preset':
+            await applyNextPreset(tab.url, storage);
+            break;
+        case 'font-size-up':
+            await stepStyle(tab.url, storage, 'fontSizeScale', 1);
+            break;
+        case 'font-size-down':
+            await stepStyle(tab.url, storage, 'fontSizeScale', -1);
+            break;
+        case 'line-height-up':
+            await stepStyle(tab.url, storage, 'lineHeight', 1);
+            break;
+        case 'line-height-down':
+            await stepStyle(tab.url, storage, 'lineHeight', -1);
+            break;
+        default:
+            return;
+    }
+
+    await pushToTab(tab.id, tab.url);
+}
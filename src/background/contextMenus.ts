@@ -0,0 +1,162 @@
+import { SiteSettings, UserStorage, GetContextSelectorMessage } from '../types/storage';
+import {
+    setSiteSettings,
+    addSiteSelector,
+    createDefaultSiteSettings,
+    copyTypography,
+    extractDomain,
+    readStorageQueued
+} from '../utils/storage';
+import { findMatchingRule, resolveSettings } from '../utils/siteMatcher';
+import { linkPreset } from '../utils/presetLink';
+import { pushToTab } from './tabState';
+
+const MENU_IDS = {
+    register: 'register-site',
+    preset: 'apply-preset',
+    excludeElement: 'exclude-element',
+    pausePage: 'pause-page',
+};
+
+// 하위 메뉴 ID 접두사 (뒤에 폰트 이름 / 프리셋 ID)
+const REGISTER_FONT_PREFIX = 'register-font:';
+const APPLY_PRESET_PREFIX = 'apply-preset:';
+
+const MENU_CONTEXTS: chrome.contextMenus.ContextType[] = ['page', 'frame', 'selection', 'link', 'image', 'editable'];
+const DOCUMENT_URL_PATTERNS = ['http://*/*', 'https://*/*'];
+
+let rebuildQueue: Promise<void> = Promise.resolve();
+
+function createMenu(properties: chrome.contextMenus.CreateProperties): void {
+    chrome.contextMenus.create({
+        contexts: MENU_CONTEXTS,
+        documentUrlPatterns: DOCUMENT_URL_PATTERNS,
+        ...properties,
+    });
+}
+
+// 폰트/프리셋 목록으로 메뉴 다시 만들기 (동시에 다시 만들면 ID가 겹치므로 순서대로)
+export function rebuildContextMenus(): Promise<void> {
+    rebuildQueue = rebuildQueue.then(async () => {
+        const storage = await readStorageQueued();
+        await chrome.contextMenus.removeAll();
+
+        if (storage.favoriteFonts.length > 0) {
+            createMenu({ id: MENU_IDS.register, title: '이 사이트에 폰트 적용' });
+            for (const font of storage.favoriteFonts) {
+                createMenu({ id: REGISTER_FONT_PREFIX + font, parentId: MENU_IDS.register, title: font });
+            }
+        }
+
+        if (storage.presets.length > 0) {
+            createMenu({ id: MENU_IDS.preset, title: '프리셋 적용' });
+            for (const preset of storage.presets) {
+                createMenu({ id: APPLY_PRESET_PREFIX + preset.id, parentId: MENU_IDS.preset, title: preset.name });
+            }
+        }
+
+        createMenu({ id: MENU_IDS.excludeElement, title: '이 요소는 폰트 변경 제외' });
+        createMenu({ id: MENU_IDS.pausePage, title: '이 페이지에서 일시 중지' });
+    }).catch((error) => {
+        console.error('[Readable] Failed to build context menus:', error);
+    });
+    return rebuildQueue;
+}
+
+// 새로 등록할 사이트의 시작 설정 (적용 중인 전역 설정이 있으면 그 값을 출발점으로)
+function createSiteSettingsFrom(url: string, storage: UserStorage, fontFamily: string): SiteSettings {
+    const resolved = resolveSettings(url, storage);
+    return resolved
+        ? { ...copyTypography(resolved.settings), isActive: true, fontFamily }
+        : createDefaultSiteSettings(fontFamily);
+}
+
+// "이 사이트에 폰트 적용" (등록된 규칙이 있으면 폰트만 변경)
+async function registerSiteWithFont(url: string, domain: string, storage: UserStorage, font: string): Promise<void> {
+    const match = findMatchingRule(url, storage.siteSettings);
+    if (match) {
+        await setSiteSettings(match.pattern, { ...match.settings, fontFamily: font, isActive: true }, match.settings);
+    } else {
+        await setSiteSettings(domain, createSiteSettingsFrom(url, storage, font), null);
+    }
+}
+
+// "프리셋 적용" (사이트를 프리셋에 연결, 등록되지 않은 사이트는 프리셋으로 새로 등록)
+async function applyPreset(url: string, domain: string, storage: UserStorage, presetId: string): Promise<void> {
+    const preset = storage.presets.find(p => p.id === presetId);
+    if (!preset) return;
+
+    const match = findMatchingRule(url, storage.siteSettings);
+    if (match) {
+        await setSiteSettings(match.pattern, linkPreset(match.settings, preset), match.settings);
+    } else {
+        await setSiteSettings(domain, linkPreset({ isActive: true, ...copyTypography(preset) }, preset), null);
+    }
+}
+
+// "이 요소는 폰트 변경 제외" (우클릭한 프레임의 콘텐츠 스크립트에서 선택자를 받아 저장)
+async function excludeElement(tabId: number, frameId: number, url: string, storage: UserStorage): Promise<void> {
+    const message: GetContextSelectorMessage = { action: "GET_CONTEXT_SELECTOR" };
+    let selector: string | null = null;
+    try {
+        const response = await chrome.tabs.sendMessage(tabId, message, { frameId });
+        selector = response?.selector ?? null;
+    } catch {
+        return; // 콘텐츠 스크립트가 없는 프레임
+    }
+    if (!selector) return;
+
+    // 전역 설정만 적용 중인 페이지는 사이트로 등록한 뒤 제외 선택자 추가
+    let pattern = findMatchingRule(url, storage.siteSettings)?.pattern;
+    if (!pattern) {
+        const domain = extractDomain(url);
+        const resolved = resolveSettings(url, storage);
+        if (!domain || !resolved) return;
+
+        await setSiteSettings(domain, createSiteSettingsFrom(url, storage, resolved.settings.fontFamily), null);
+        pattern = domain;
+    }
+
+    await addSiteSelector(pattern, 'excludeSelectors', selector);
+}
+
+// "이 페이지에서 일시 중지" (현재 경로에만 일치하는 꺼진 규칙 추가)
+async function pausePage(url: string, storage: UserStorage): Promise<void> {
+    const resolved = resolveSettings(url, storage);
+    if (!resolved?.settings.isActive) return;
+
+    const { hostname, pathname } = new URL(url);
+    const pattern = `${hostname}${pathname}`;
+    const existing = storage.siteSettings[pattern];
+
+    if (existing) {
+        await setSiteSettings(pattern, { ...existing, isActive: false }, existing);
+    } else {
+        await setSiteSettings(pattern, { ...copyTypography(resolved.settings), isActive: false }, null);
+    }
+}
+
+// 메뉴 클릭 처리
+export async function handleContextMenuClick(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab): Promise<void> {
+    const pageUrl = tab?.url || info.pageUrl;
+    const domain = extractDomain(pageUrl);
+    if (tab?.id === undefined || !domain) return;
+
+    const storage = await readStorageQueued();
+    const menuItemId = String(info.menuItemId);
+
+    if (menuItemId.startsWith(REGISTER_FONT_PREFIX)) {
+        await registerSiteWithFont(pageUrl, domain, storage, menuItemId.slice(REGISTER_FONT_PREFIX.length));
+    } else if (menuItemId.startsWith(APPLY_PRESET_PREFIX)) {
+        await applyPreset(pageUrl, domain, storage, menuItemId.slice(APPLY_PRESET_PREFIX.length));
+    } else if (menuItemId === MENU_IDS.excludeElement) {
+        // 선택자는 우클릭한 프레임 문서 기준이므로 프레임 URL의 규칙에 저장
+        await excludeElement(tab.id, info.frameId ?? 0, info.frameUrl || pageUrl, storage);
+    } else if (menuItemId === MENU_IDS.pausePage) {
+        await pausePage(pageUrl, storage);
+    } else {
+        return;
+    }
+
+    await pushToTab(tab.id, pageUrl);
+}
@@ -0,0 +1,155 @@
+import { UserStorage } from '../types/storage';
+import { readStorageQueued } from '../utils/storage';
+import { findBestRule, isGloballyBlocked } from '../utils/siteMatcher';
+
+// 첫 페인트 전에 적용할 CSS
+// 콘텐츠 스크립트는 document_start에 실행되지만 설정을 비동기로 읽으므로 페이지가 원래 폰트로 먼저 그려짐
+// 그래서 콘텐츠 스크립트가 마지막으로 적용한 CSS를 규칙별로 보관했다가, 탭이 이동하면(커밋 시점)
+// 백그라운드에서 insertCSS로 먼저 넣고, 콘텐츠 스크립트가 설정을 읽어 적용하면 제거함
+// 커밋 시점에는 스토리지를 읽지 않도록 규칙 목록을 미리 요약해 두고 메모리에서 바로 찾음
+// (서비스 워커가 다시 시작될 때를 위해 페이지에서 읽을 수 없는 세션 저장소에도 보관)
+
+const EARLY_STYLES_KEY = 'earlyStyles';
+
+// 업로드한 폰트 등으로 CSS가 매우 커지면 보관하지 않음
+const MAX_STYLES_LENGTH = 512 * 1024;
+
+type StylesByKey = { [key: string]: string };
+
+// 규칙 판정에 필요한 설정 요약 (설정이 바뀔 때마다 다시 만듦)
+interface RuleIndex {
+    sites: { [pattern: string]: boolean };     // 사이트 규칙 → 켜짐 여부
+    global: boolean;                           // 켜진 전역 설정이 있는지
+    globalBlocklist: string[];
+    isPaused: boolean;
+}
+
+interface EarlyStylesState {
+    index: RuleIndex;
+    rules: StylesByKey;        // 규칙 키 → CSS
+    tabs: StylesByKey;         // 탭 ID → 넣은 CSS (제거할 때 같은 문자열이 필요)
+}
+
+let statePromise: Promise<EarlyStylesState> | null = null;
+
+// 탭마다 넣기와 제거가 순서대로 실행되도록 (넣기가 끝나기 전에 제거하면 먼저 넣은 CSS가 남음)
+const tabTasks = new Map<number, Promise<unknown>>();
+
+function enqueueTabTask(tabId: number, task: () => Promise<void>): Promise<void> {
+    const result = (tabTasks.get(tabId) ?? Promise.resolve()).then(task);
+    tabTasks.set(tabId, result.catch(() => undefined));
+    return result;
+}
+
+function buildRuleIndex(storage: UserStorage): RuleIndex {
+    return {
+        sites: Object.fromEntries(Object.entries(storage.siteSettings)
+            .map(([pattern, settings]) => [pattern, settings.isActive])),
+        global: !!storage.globalSettings?.isActive,
+        globalBlocklist: storage.globalBlocklist,
+        isPaused: storage.isPaused,
+    };
+}
+
+// 서비스 워커가 시작된 뒤 처음 한 번만 세션 저장소에서 읽음 (없으면 설정으로 만듦)
+function loadState(): Promise<EarlyStylesState> {
+    statePromise ??= (async () => {
+        const result = await chrome.storage.session.get(EARLY_STYLES_KEY);
+        const saved = result[EARLY_STYLES_KEY] as EarlyStylesState | undefined;
+        return saved ?? { index: buildRuleIndex(await readStorageQueued()), rules: {}, tabs: {} };
+    })();
+    return statePromise;
+}
+
+async function saveState(state: EarlyStylesState): Promise<void> {
+    await chrome.storage.session.set({ [EARLY_STYLES_KEY]: state });
+}
+
+// URL에 적용되는 규칙 (사이트 규칙 또는 전역 설정, 적용하지 않으면 null)
+// tabState.getTabState와 같은 기준
+function resolveRuleKey(url: string, index: RuleIndex): string | null {
+    if (index.isPaused) return null;
+
+    let urlObj: URL;
+    try {
+        urlObj = new URL(url);
+    } catch {
+        return null;
+    }
+
+    const rule = findBestRule(urlObj, Object.keys(index.sites));
+    if (rule) {
+        return index.sites[rule.pattern] ? `site:${rule.pattern}` : null;
+    }
+    return index.global && !isGloballyBlocked(url, index.globalBlocklist) ? 'global' : null;
+}
+
+// 탭의 최상위 문서가 바뀌면 같은 규칙으로 마지막에 적용한 CSS를 넣음
+export function insertEarlyStyles(tabId: number, url: string): Promise<void> {
+    return enqueueTabTask(tabId, async () => {
+        const state = await loadState();
+
+        // 이전 문서에 넣은 CSS는 문서와 함께 사라짐
+        delete state.tabs[tabId];
+
+        const ruleKey = resolveRuleKey(url, state.index);
+        const css = ruleKey ? state.rules[ruleKey] : undefined;
+        if (css) {
+            try {
+                await chrome.scripting.insertCSS({ target: { tabId, frameIds: [0] }, css, origin: 'AUTHOR' });
+                state.tabs[tabId] = css;
+            } catch {
+                // 스크립트를 넣을 수 없는 페이지 (브라우저 내부 페이지 등)
+            }
+        }
+        await saveState(state);
+    });
+}
+
+// 콘텐츠 스크립트가 스타일을 적용한 뒤: 규칙의 CSS를 갱신하고 먼저 넣은 CSS는 제거
+export function updateEarlyStyles(tabId: number, url: string, css: string | null): Promise<void> {
+    return enqueueTabTask(tabId, async () => {
+        const state = await loadState();
+
+        const ruleKey = resolveRuleKey(url, state.index);
+        if (ruleKey) {
+            if (css && css.length <= MAX_STYLES_LENGTH) {
+                state.rules[ruleKey] = css;
+            } else {
+                delete state.rules[ruleKey];
+            }
+        }
+
+        const insertedCSS = state.tabs[tabId];
+        delete state.tabs[tabId];
+        await saveState(state);
+
+        if (insertedCSS === undefined) return;
+        try {
+            await chrome.scripting.removeCSS({ target: { tabId, frameIds: [0] }, css: insertedCSS, origin: 'AUTHOR' });
+        } catch {
+            // 닫혔거나 다른 페이지로 이동한 탭
+        }
+    });
+}
+
+// 설정이 바뀌면 규칙 요약을 다시 만듦
+export async function refreshRuleIndex(): Promise<void> {
+    const [state, storage] = await Promise.all([loadState(), readStorageQueued()]);
+    state.index = buildRuleIndex(storage);
+    await saveState(state);
+}
+
+// 설정이나 웹 폰트가 바뀌면 보관한 CSS는 더 이상 맞지 않음 (열린 탭은 다시 적용하면서 새로 보냄)
+export async function clearEarlyStyles(): Promise<void> {
+    const state = await loadState();
+    state.rules = {};
+    await saveState(state);
+}
+
+export async function forgetTabStyles(tabId: number): Promise<void> {
+    tabTasks.delete(tabId);
+    const state = await loadState();
+    delete state.tabs[tabId];
+    await saveState(state);
+}
@@ -0,0 +1,161 @@
+import {
+    runMigrations,
+    enqueueMutation,
+    readStorageQueued,
+    readPageSettingsQueued,
+    isSettingsChange,
+    isWebFontsChange
+} from '../utils/storage';
+import { BackgroundMessage, TabState } from '../types/storage';
+import { getTabState, updateTabAction } from './tabState';
+import { handleCommand } from './commands';
+import { rebuildContextMenus, handleContextMenuClick } from './contextMenus';
+import { registerPageHook } from './pageHook';
+import {
+    insertEarlyStyles,
+    updateEarlyStyles,
+    refreshRuleIndex,
+    clearEarlyStyles,
+    forgetTabStyles
+} from './earlyStyles';
+
+// 탭별 마지막 상태 (서비스 워커가 다시 시작되면 비어 있으므로 필요할 때 다시 계산)
+const tabStates = new Map<number, TabState>();
+
+function isSameTabState(a: TabState | undefined, b: TabState): boolean {
+    return !!a && a.status === b.status && a.source === b.source && a.pattern === b.pattern;
+}
+
+// 탭 하나의 상태 갱신
+async function refreshTab(tabId: number, url: string | undefined): Promise<void> {
+    const state = getTabState(url, await readStorageQueued());
+    if (isSameTabState(tabStates.get(tabId), state)) return;
+
+    tabStates.set(tabId, state);
+    await updateTabAction(tabId, state);
+}
+
+// 모든 탭의 상태 갱신 (설정이 바뀌었을 때)
+async function refreshAllTabs(): Promise<void> {
+    const storage = await readStorageQueued();
+    const tabs = await chrome.tabs.query({});
+
+    for (const tab of tabs) {
+        if (tab.id === undefined) continue;
+
+        const state = getTabState(tab.url, storage);
+        if (isSameTabState(tabStates.get(tab.id), state)) continue;
+
+        tabStates.set(tab.id, state);
+        await updateTabAction(tab.id, state);
+    }
+}
+
+// 페이지(MAIN world) 훅 스크립트 등록
+function setupPageHook(): void {
+    registerPageHook().catch((error) => {
+        console.error('[Readable] Failed to register page hook:', error);
+    });
+}
+
+// 설치/업데이트 시 저장된 설정을 현재 스키마로 마이그레이션
+chrome.runtime.onInstalled.addListener(async () => {
+    try {
+        await runMigrations();
+    } catch (error) {
+        console.error('[Readable] Failed to migrate storage:', error);
+    }
+    setupPageHook();
+    refreshRuleIndex();
+    refreshAllTabs();
+    rebuildContextMenus();
+});
+
+chrome.runtime.onStartup.addListener(() => {
+    setupPageHook();
+    refreshAllTabs();
+    rebuildContextMenus();
+});
+
+// 팝업, 옵션, 콘텐츠 스크립트의 설정 조회/변경을 한 큐에서 순서대로 처리
+chrome.runtime.onMessage.addListener((message: BackgroundMessage, sender, sendResponse) => {
+    let response: Promise<unknown>;
+
+    switch (message.action) {
+        case 'STORAGE_MUTATION':
+            response = enqueueMutation(message.mutation).catch((error) => {
+                console.error('[Readable] Failed to update storage:', error);
+                return false;
+            });
+            break;
+        case 'GET_STORAGE':
+            response = readStorageQueued();
+            break;
+        case 'RESOLVE_PAGE_SETTINGS':
+            // iframe은 최상위 페이지 설정의 framePolicy를 따름
+            response = readPageSettingsQueued(message.url, sender.frameId ? sender.tab?.url : undefined);
+            break;
+        case 'SET_EARLY_STYLES':
+            // 최상위 문서만 첫 페인트용 CSS를 보관 (iframe은 포함한 페이지에 따라 설정이 달라짐)
+            if (sender.tab?.id === undefined || sender.frameId !== 0) return;
+            response = updateEarlyStyles(sender.tab.id, message.url, message.css).catch((error) => {
+                console.error('[Readable] Failed to update early styles:', error);
+            });
+            break;
+        default:
+            return;
+    }
+
+    response.then(sendResponse);
+    return true; // 비동기 응답
+});
+
+// 단축키
+chrome.commands.onCommand.addListener((command, tab) => {
+    handleCommand(command, tab).catch((error) => {
+        console.error(`[Readable] Failed to run command "${command}":`, error);
+    });
+});
+
+// 컨텍스트 메뉴
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+    handleContextMenuClick(info, tab).catch((error) => {
+        console.error('[Readable] Failed to run context menu action:', error);
+    });
+});
+
+// 탭 이동 (SPA 라우팅 포함)
+chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+    if (changeInfo.url || changeInfo.status === 'loading') {
+        refreshTab(tabId, tab.url);
+    }
+});
+
+// 새 문서가 커밋되면 콘텐츠 스크립트가 설정을 읽기 전에 마지막으로 적용한 CSS를 먼저 넣음
+chrome.webNavigation.onCommitted.addListener(({ tabId, frameId, url }) => {
+    if (frameId !== 0) return;
+    insertEarlyStyles(tabId, url).catch((error) => {
+        console.error('[Readable] Failed to insert early styles:', error);
+    });
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+    tabStates.delete(tabId);
+    forgetTabStyles(tabId);
+});
+
+// 설정 변경 (다른 기기에서 동기화된 변경 포함)
+chrome.storage.onChanged.addListener((changes, namespace) => {
+    if (isSettingsChange(changes, namespace)) {
+        refreshAllTabs();
+        refreshRuleIndex();
+    }
+    // 첫 페인트용 CSS는 설정과 웹 폰트로 만들어짐
+    if (isSettingsChange(changes, namespace) || isWebFontsChange(changes, namespace)) {
+        clearEarlyStyles();
+    }
+    // 메뉴에 표시되는 폰트/프리셋 목록
+    if (isSettingsChange(changes, namespace, ['favoriteFonts', 'presets'])) {
+        rebuildContextMenus();
+    }
+});
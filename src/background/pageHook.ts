@@ -0,0 +1,23 @@
+// 페이지(MAIN world) 훅 등록
+// attachShadow와 history 호출은 페이지 스크립트보다 먼저 가로채야 하므로 document_start에 동기로 실행되어야 함
+// (vite.config.ts의 pageHookScript가 src/content/pageHook.ts를 import 없는 단일 파일로 빌드)
+const PAGE_HOOK_ID = 'readable-page-hook';
+
+const PAGE_HOOK_SCRIPT: chrome.scripting.RegisteredContentScript = {
+    id: PAGE_HOOK_ID,
+    js: ['pageHook.js'],
+    matches: ['<all_urls>'],
+    runAt: 'document_start',
+    allFrames: true,
+    world: 'MAIN',
+};
+
+// 등록된 스크립트는 브라우저를 다시 시작해도 유지되므로 없을 때만 등록 (업데이트 때는 설정을 갱신)
+export async function registerPageHook(): Promise<void> {
+    const registered = await chrome.scripting.getRegisteredContentScripts({ ids: [PAGE_HOOK_ID] });
+    if (registered.length > 0) {
+        await chrome.scripting.updateContentScripts([PAGE_HOOK_SCRIPT]);
+    } else {
+        await chrome.scripting.registerContentScripts([PAGE_HOOK_SCRIPT]);
+    }
+}
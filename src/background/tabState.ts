@@ -0,0 +1,121 @@
+import { UserStorage, TabState, ApplyStylesMessage } from '../types/storage';
+import { resolveSettings } from '../utils/siteMatcher';
+import { extractDomain, readPageSettingsQueued } from '../utils/storage';
+import iconUrl from '../../icons/icon48.png';
+
+const BADGE_COLORS = {
+    active: '#8FAE8B',
+    paused: '#888888',
+};
+
+// 툴바 아이콘 크기 (px)
+const ICON_SIZES = [16, 32];
+
+type IconSet = { [size: number]: ImageData };
+
+let iconCache: Promise<{ color: IconSet; gray: IconSet }> | null = null;
+
+// 기본 아이콘과 흐린 회색 아이콘 생성 (서비스 워커에서는 경로 대신 ImageData로 설정)
+function loadIcons(): Promise<{ color: IconSet; gray: IconSet }> {
+    iconCache ??= (async () => {
+        const blob = await (await fetch(iconUrl)).blob();
+        const bitmap = await createImageBitmap(blob);
+
+        const render = (gray: boolean): IconSet => {
+            const icons: IconSet = {};
+            for (const size of ICON_SIZES) {
+                const canvas = new OffscreenCanvas(size, size);
+                const ctx = canvas.getContext('2d')!;
+                if (gray) {
+                    ctx.filter = 'grayscale(1)';
+                    ctx.globalAlpha = 0.5;
+                }
+                ctx.drawImage(bitmap, 0, 0, size, size);
+                icons[size] = ctx.getImageData(0, 0, size, size);
+            }
+            return icons;
+        };
+
+        return { color: render(false), gray: render(true) };
+    })();
+    return iconCache;
+}
+
+// URL에 대한 Readable 상태 계산
+export function getTabState(url: string | undefined, storage: UserStorage): TabState {
+    if (!url || !extractDomain(url)) {
+        return { status: 'inactive', source: null, pattern: null };
+    }
+
+    const resolved = resolveSettings(url, storage);
+    if (!resolved) {
+        return { status: 'inactive', source: null, pattern: null };
+    }
+
+    const pattern = resolved.match?.pattern ?? null;
+    // 모든 사이트에서 일시 중지
+    if (resolved.settings.isActive && storage.isPaused) {
+        return { status: 'paused', source: null, pattern: null };
+    }
+    if (resolved.settings.isActive) {
+        return { status: 'active', source: resolved.source, pattern };
+    }
+
+    // 꺼진 전역 설정은 등록되지 않은 것과 같음
+    return resolved.source === 'site'
+        ? { status: 'paused', source: 'site', pattern }
+        : { status: 'inactive', source: null, pattern: null };
+}
+
+function describeTabState(state: TabState): string {
+    switch (state.status) {
+        case 'active':
+            return state.source === 'site' ? `${state.pattern} 규칙 적용 중` : '전역 설정 적용 중';
+        case 'paused':
+            return state.pattern ? `${state.pattern} 규칙 꺼짐` : '일시 중지됨';
+        case 'inactive':
+            return '적용 안 함';
+    }
+}
+
+// 탭의 툴바 아이콘, 배지, 툴팁 갱신
+export async function updateTabAction(tabId: number, state: TabState): Promise<void> {
+    try {
+        const icons = await loadIcons();
+        await chrome.action.setIcon({ tabId, imageData: state.status === 'active' ? icons.color : icons.gray });
+
+        if (state.status === 'inactive') {
+            await chrome.action.setBadgeText({ tabId, text: '' });
+        } else {
+            await chrome.action.setBadgeText({ tabId, text: state.status === 'active' ? 'ON' : 'OFF' });
+            await chrome.action.setBadgeBackgroundColor({ tabId, color: BADGE_COLORS[state.status] });
+        }
+
+        await chrome.action.setTitle({ tabId, title: `Readable - ${describeTabState(state)}` });
+    } catch {
+        // 갱신 도중 닫힌 탭
+    }
+}
+
+// 저장된 결과를 탭에 바로 적용 (팝업의 applyStyles와 같은 메시지)
+export async function pushToTab(tabId: number, url: string): Promise<void> {
+    const domain = extractDomain(url);
+    if (!domain) return;
+
+    const { settings } = await readPageSettingsQueued(url);
+    const message: ApplyStylesMessage = { action: "APPLY_STYLES", domain, settings };
+    try {
+        await chrome.tabs.sendMessage(tabId, message);
+    } catch {
+        // 콘텐츠 스크립트가 없는 탭
+    }
+}
+
+export async function pushToAllTabs(): Promise<void> {
+    const tabs = await chrome.tabs.query({});
+    for (const tab of tabs) {
+        if (tab.id !== undefined && tab.url) {
+            await pushToTab(tab.id, tab.url);
+        }
+    }
+}
@@ -0,0 +1,107 @@
+import { ColorSettings, ColorTheme } from '../types/storage';
+
+interface ColorControlsProps {
+    colors: ColorSettings;
+    onChange: (colors: ColorSettings) => void;
+}
+
+const THEME_LABELS: Record<ColorTheme, string> = {
+    original: '원본 색 유지',
+    custom: '직접 지정',
+    dark: '어두운 테마',
+};
+
+// 최소 명암비 선택지 (WCAG AA / AAA)
+const CONTRAST_OPTIONS: { value: number; label: string }[] = [
+    { value: 0, label: '사용 안 함' },
+    { value: 4.5, label: '4.5 : 1 (AA)' },
+    { value: 7, label: '7 : 1 (AAA)' },
+];
+
+type ColorKey = 'textColor' | 'linkColor' | 'backgroundColor';
+
+// initial: 색을 처음 지정할 때 시작 값 (밝은 종이 느낌)
+const COLOR_FIELDS: { key: ColorKey; label: string; initial: string }[] = [
+    { key: 'textColor', label: '글자', initial: '#222222' },
+    { key: 'linkColor', label: '링크', initial: '#1a5fb4' },
+    { key: 'backgroundColor', label: '배경', initial: '#fbf7ee' },
+];
+
+// 색상 테마와 명암비 (팝업, 프리셋 에디터, 전역 설정 공용)
+function ColorControls({ colors, onChange }: ColorControlsProps) {
+    return (
+        <div className="space-y-4">
+            {/* 테마 */}
+            <div>
+                <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                    색상
+                </label>
+                <select
+                    value={colors.theme}
+                    onChange={(e) => onChange({ ...colors, theme: e.target.value as ColorTheme })}
+                    className="input-field"
+                >
+                    {(Object.keys(THEME_LABELS) as ColorTheme[]).map((theme) => (
+                        <option key={theme} value={theme}>{THEME_LABELS[theme]}</option>
+                    ))}
+                </select>
+            </div>
+
+            {/* 직접 지정 (비워 두면 원본 색 유지) */}
+            {colors.theme === 'custom' && (
+                <div className="space-y-2">
+                    {COLOR_FIELDS.map(({ key, label, initial }) => (
+                        <div key={key} className="flex items-center justify-between text-xs">
+                            <span style={{ color: 'var(--text-secondary)' }}>{label}</span>
+                            <div className="flex items-center gap-2">
+                                {colors[key] ? (
+                                    <>
+                                        <input
+                                            type="color"
+                                            value={colors[key]}
+                                            onChange={(e) => onChange({ ...colors, [key]: e.target.value })}
+                                        />
+                                        <button
+                                            onClick={() => onChange({ ...colors, [key]: '' })}
+                                            style={{ color: 'var(--text-secondary)' }}
+                                        >
+                                            원본
+                                        </button>
+                                    </>
+                                ) : (
+                                    <button
+                                        onClick={() => onChange({ ...colors, [key]: initial })}
+                                        className="btn-secondary text-xs"
+                                    >
+                                        지정
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* 최소 명암비 */}
+            <div>
+                <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                    최소 명암비
+                </label>
+                <select
+                    value={colors.minContrast}
+                    onChange={(e) => onChange({ ...colors, minContrast: parseFloat(e.target.value) })}
+                    className="input-field"
+                >
+                    {CONTRAST_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                <div className="text-xs mt-1" style={{ color: 'var(--text-secondary)' }}>
+                    배경과 구분이 어려운 글자를 기준 명암비까지 진하게(또는 밝게) 조정합니다.
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default ColorControls;
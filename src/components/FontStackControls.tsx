@@ -0,0 +1,112 @@
+import { FontScript, TypographySettings } from '../types/storage';
+import { FONT_SCRIPTS, SCRIPT_LABELS } from '../utils/fontStack';
+
+type FontStackValue = Pick<TypographySettings, 'fontFamily' | 'fallbackFonts' | 'scriptFonts'>;
+
+interface FontStackControlsProps {
+    fonts: string[];           // 선택 가능한 폰트 (favoriteFonts)
+    value: FontStackValue;
+    onChange: (changes: Pick<TypographySettings, 'fallbackFonts' | 'scriptFonts'>) => void;
+}
+
+// 대체 폰트 순서 및 문자 체계별 폰트 지정
+function FontStackControls({ fonts, value, onChange }: FontStackControlsProps) {
+    const fallbackFonts = value.fallbackFonts || [];
+    const scriptFonts = value.scriptFonts || {};
+    const addableFonts = fonts.filter(font => font !== value.fontFamily && !fallbackFonts.includes(font));
+
+    function updateFallbacks(newFallbacks: string[]) {
+        onChange({ fallbackFonts: newFallbacks, scriptFonts });
+    }
+
+    function moveFallbackUp(index: number) {
+        const newFallbacks = [...fallbackFonts];
+        [newFallbacks[index - 1], newFallbacks[index]] = [newFallbacks[index], newFallbacks[index - 1]];
+        updateFallbacks(newFallbacks);
+    }
+
+    function updateScriptFont(script: FontScript, font: string) {
+        const newScriptFonts = { ...scriptFonts };
+        if (font) {
+            newScriptFonts[script] = font;
+        } else {
+            delete newScriptFonts[script];
+        }
+        onChange({ fallbackFonts, scriptFonts: newScriptFonts });
+    }
+
+    return (
+        <div className="space-y-4">
+            {/* 대체 폰트 */}
+            <div>
+                <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                    대체 폰트 (순서대로 사용)
+                </label>
+                {fallbackFonts.length > 0 && (
+                    <div className="space-y-1 mb-2">
+                        {fallbackFonts.map((font, index) => (
+                            <div key={font} className="flex items-center gap-2 text-sm">
+                                <span className="text-xs w-4" style={{ color: 'var(--text-secondary)' }}>{index + 1}</span>
+                                <span className="flex-1 truncate" style={{ fontFamily: font }}>{font}</span>
+                                <button
+                                    onClick={() => moveFallbackUp(index)}
+                                    disabled={index === 0}
+                                    className="text-xs px-1 disabled:opacity-30"
+                                    style={{ color: 'var(--text-secondary)' }}
+                                >
+                                    ▲
+                                </button>
+                                <button
+                                    onClick={() => updateFallbacks(fallbackFonts.filter(f => f !== font))}
+                                    className="tag-remove"
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {addableFonts.length > 0 && (
+                    <select
+                        value=""
+                        onChange={(e) => e.target.value && updateFallbacks([...fallbackFonts, e.target.value])}
+                        className="input-field"
+                    >
+                        <option value="" disabled>대체 폰트 추가...</option>
+                        {addableFonts.map((font) => (
+                            <option key={font} value={font}>{font}</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
+            {/* 문자 체계별 폰트 */}
+            <div>
+                <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                    문자별 폰트
+                </label>
+                <div className="space-y-2">
+                    {FONT_SCRIPTS.map((script) => (
+                        <div key={script} className="flex items-center gap-2">
+                            <span className="text-xs w-24 shrink-0" style={{ color: 'var(--text-secondary)' }}>
+                                {SCRIPT_LABELS[script]}
+                            </span>
+                            <select
+                                value={scriptFonts[script] || ''}
+                                onChange={(e) => updateScriptFont(script, e.target.value)}
+                                className="input-field text-sm py-1"
+                            >
+                                <option value="">기본 폰트</option>
+                                {fonts.map((font) => (
+                                    <option key={font} value={font}>{font}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default FontStackControls;
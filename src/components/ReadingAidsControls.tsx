@@ -0,0 +1,42 @@
+import { ReadingAids } from '../types/storage';
+
+interface ReadingAidsControlsProps {
+    aids: ReadingAids;
+    onChange: (aids: ReadingAids) => void;
+}
+
+const AID_OPTIONS: { key: keyof ReadingAids; label: string; description: string }[] = [
+    { key: 'dyslexiaFont', label: '난독증용 폰트', description: '영문을 OpenDyslexic 폰트로 표시' },
+    { key: 'wordEmphasis', label: '단어 앞부분 강조', description: '영문 단어의 앞 절반을 굵게 표시' },
+    { key: 'readingRuler', label: '읽기 자', description: '마우스가 있는 줄 주변만 밝게 표시' },
+    { key: 'cursorHighlight', label: '커서 강조', description: '마우스 위치를 큰 원으로 표시' },
+];
+
+// 읽기 보조 기능 켜기/끄기 (팝업, 프리셋 에디터, 전역 설정 공용)
+function ReadingAidsControls({ aids, onChange }: ReadingAidsControlsProps) {
+    return (
+        <div className="space-y-3">
+            {AID_OPTIONS.map(({ key, label, description }) => (
+                <div key={key} className="flex justify-between items-center">
+                    <div>
+                        <div className="text-xs">{label}</div>
+                        <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>{description}</div>
+                    </div>
+                    <label className="toggle-switch" style={{ transform: 'scale(0.8)' }}>
+                        <input
+                            type="checkbox"
+                            checked={aids[key]}
+                            onChange={(e) => onChange({ ...aids, [key]: e.target.checked })}
+                        />
+                        <span className="toggle-slider"></span>
+                    </label>
+                </div>
+            ))}
+            <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+                입력창과 편집 가능한 영역에는 적용되지 않습니다.
+            </div>
+        </div>
+    );
+}
+
+export default ReadingAidsControls;
@@ -0,0 +1,107 @@
+import { RoleStyles } from '../types/storage';
+
+interface RoleControlsProps {
+    fonts: string[];
+    roleStyles: RoleStyles;
+    defaultFontLabel: string;  // 폰트를 지정하지 않았을 때의 동작 설명
+    onChange: (roleStyles: RoleStyles) => void;
+}
+
+// 역할(제목, 코드)별 폰트/굵기/행간/크기
+function RoleControls({ fonts, roleStyles, defaultFontLabel, onChange }: RoleControlsProps) {
+    function update<K extends keyof RoleStyles>(key: K, value: RoleStyles[K]) {
+        onChange({ ...roleStyles, [key]: value });
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center text-xs">
+                <span style={{ color: 'var(--text-secondary)' }}>별도 설정 사용</span>
+                <label className="toggle-switch" style={{ transform: 'scale(0.8)' }}>
+                    <input
+                        type="checkbox"
+                        checked={roleStyles.enabled}
+                        onChange={(e) => update('enabled', e.target.checked)}
+                    />
+                    <span className="toggle-slider"></span>
+                </label>
+            </div>
+
+            {roleStyles.enabled && (
+                <>
+                    {/* 폰트 */}
+                    <div>
+                        <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                            폰트
+                        </label>
+                        <select
+                            value={roleStyles.fontFamily}
+                            onChange={(e) => update('fontFamily', e.target.value)}
+                            className="input-field"
+                        >
+                            <option value="">{defaultFontLabel}</option>
+                            {fonts.map((font) => (
+                                <option key={font} value={font} style={{ fontFamily: font }}>
+                                    {font}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* 크기 */}
+                    <div>
+                        <div className="flex justify-between text-xs mb-1.5">
+                            <span style={{ color: 'var(--text-secondary)' }}>크기</span>
+                            <span>{roleStyles.fontSizeScale === 1 ? '원본 유지' : `${(roleStyles.fontSizeScale * 100).toFixed(0)}%`}</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0.7"
+                            max="1.6"
+                            step="0.05"
+                            value={roleStyles.fontSizeScale}
+                            onChange={(e) => update('fontSizeScale', parseFloat(e.target.value))}
+                            className="slider-track w-full"
+                        />
+                    </div>
+
+                    {/* 행간 */}
+                    <div>
+                        <div className="flex justify-between text-xs mb-1.5">
+                            <span style={{ color: 'var(--text-secondary)' }}>행간</span>
+                            <span>{roleStyles.lineHeight}</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="1"
+                            max="3"
+                            step="0.1"
+                            value={roleStyles.lineHeight}
+                            onChange={(e) => update('lineHeight', parseFloat(e.target.value))}
+                            className="slider-track w-full"
+                        />
+                    </div>
+
+                    {/* 굵기 */}
+                    <div>
+                        <div className="flex justify-between text-xs mb-1.5">
+                            <span style={{ color: 'var(--text-secondary)' }}>굵기</span>
+                            <span>{roleStyles.fontWeight === 'inherit' ? '원본 유지' : roleStyles.fontWeight}</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0"
+                            max="900"
+                            step="100"
+                            value={parseInt(roleStyles.fontWeight) || 0}
+                            onChange={(e) => update('fontWeight', e.target.value === '0' ? 'inherit' : e.target.value)}
+                            className="slider-track w-full"
+                        />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
+
+export default RoleControls;
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { isValidSelector } from '../utils/selectors';
+
+interface SelectorListEditorProps {
+    label: string;
+    placeholder: string;
+    selectors: string[];
+    onChange: (selectors: string[]) => void;
+}
+
+// CSS 선택자 목록 편집 (추가 시 유효성 검사)
+function SelectorListEditor({ label, placeholder, selectors, onChange }: SelectorListEditorProps) {
+    const [input, setInput] = useState('');
+    const [error, setError] = useState('');
+
+    function handleAdd() {
+        const selector = input.trim();
+        if (!selector) return;
+
+        if (!isValidSelector(selector)) {
+            setError('올바르지 않은 선택자입니다.');
+            return;
+        }
+
+        if (selectors.includes(selector)) {
+            setError('이미 추가된 선택자입니다.');
+            return;
+        }
+
+        onChange([...selectors, selector]);
+        setInput('');
+        setError('');
+    }
+
+    return (
+        <div>
+            <div className="text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                {label} ({selectors.length})
+            </div>
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={input}
+                    onChange={(e) => {
+                        setInput(e.target.value);
+                        setError('');
+                    }}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                    placeholder={placeholder}
+                    className="input-field flex-1 font-mono text-sm"
+                />
+                <button onClick={handleAdd} className="btn-secondary text-sm">
+                    추가
+                </button>
+            </div>
+            {error && (
+                <div className="text-xs mt-1" style={{ color: '#f0c040' }}>{error}</div>
+            )}
+            {selectors.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                    {selectors.map((selector) => (
+                        <span key={selector} className="tag font-mono text-xs">
+                            {selector}
+                            <button
+                                onClick={() => onChange(selectors.filter(s => s !== selector))}
+                                className="tag-remove"
+                            >
+                                ✕
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default SelectorListEditor;
@@ -0,0 +1,215 @@
+import { SiteStyles, TextAlign } from '../types/storage';
+
+interface StyleControlsProps {
+    styles: SiteStyles;
+    onChange: <K extends keyof SiteStyles>(key: K, value: SiteStyles[K]) => void;
+}
+
+const TEXT_ALIGN_LABELS: Record<TextAlign, string> = {
+    inherit: '원본 유지',
+    start: '왼쪽 정렬',
+    justify: '양쪽 정렬',
+};
+
+// 최대 너비를 켤 때 시작 값 (한 줄에 읽기 편한 글자 수)
+const DEFAULT_MAX_WIDTH = 70;
+
+// 스타일 슬라이더 묶음 (팝업, 프리셋 에디터, 전역 설정 공용)
+function StyleControls({ styles, onChange }: StyleControlsProps) {
+    return (
+        <div className="space-y-4">
+            {/* 폰트 크기 비율 */}
+            <div>
+                <div className="flex justify-between text-xs mb-1.5">
+                    <span style={{ color: 'var(--text-secondary)' }}>폰트 크기</span>
+                    <span>{((styles.fontSizeScale || 1) * 100).toFixed(0)}%</span>
+                </div>
+                <input
+                    type="range"
+                    min="0.8"
+                    max="1.6"
+                    step="0.05"
+                    value={styles.fontSizeScale || 1}
+                    onChange={(e) => onChange('fontSizeScale', parseFloat(e.target.value))}
+                    className="slider-track w-full"
+                />
+            </div>
+
+            {/* 행간 */}
+            <div>
+                <div className="flex justify-between text-xs mb-1.5">
+                    <span style={{ color: 'var(--text-secondary)' }}>행간</span>
+                    <span>{styles.lineHeight}</span>
+                </div>
+                <input
+                    type="range"
+                    min="1"
+                    max="3"
+                    step="0.1"
+                    value={styles.lineHeight}
+                    onChange={(e) => onChange('lineHeight', parseFloat(e.target.value))}
+                    className="slider-track w-full"
+                />
+            </div>
+
+            {/* 자간 */}
+            <div>
+                <div className="flex justify-between text-xs mb-1.5">
+                    <span style={{ color: 'var(--text-secondary)' }}>자간</span>
+                    <span>{styles.letterSpacing}</span>
+                </div>
+                <input
+                    type="range"
+                    min="-2"
+                    max="10"
+                    step="0.5"
+                    value={parseFloat(styles.letterSpacing)}
+                    onChange={(e) => onChange('letterSpacing', `${e.target.value}px`)}
+                    className="slider-track w-full"
+                />
+            </div>
+
+            {/* 단어 간격 */}
+            <div>
+                <div className="flex justify-between text-xs mb-1.5">
+                    <span style={{ color: 'var(--text-secondary)' }}>단어 간격</span>
+                    <span>{styles.wordSpacing}</span>
+                </div>
+                <input
+                    type="range"
+                    min="0"
+                    max="20"
+                    step="1"
+                    value={parseFloat(styles.wordSpacing)}
+                    onChange={(e) => onChange('wordSpacing', `${e.target.value}px`)}
+                    className="slider-track w-full"
+                />
+            </div>
+
+            {/* 굵기 */}
+            <div>
+                <div className="flex justify-between items-center text-xs mb-1.5">
+                    <span style={{ color: 'var(--text-secondary)' }}>굵기 조절</span>
+                    <label className="toggle-switch" style={{ transform: 'scale(0.8)' }}>
+                        <input
+                            type="checkbox"
+                            checked={styles.fontWeight !== 'inherit'}
+                            onChange={(e) => onChange('fontWeight', e.target.checked ? '400' : 'inherit')}
+                        />
+                        <span className="toggle-slider"></span>
+                    </label>
+                </div>
+                {styles.fontWeight !== 'inherit' && (
+                    <>
+                        <div className="flex justify-between text-xs mb-1">
+                            <span></span>
+                            <span>{styles.fontWeight}</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="100"
+                            max="900"
+                            step="100"
+                            value={parseInt(styles.fontWeight) || 400}
+                            onChange={(e) => onChange('fontWeight', e.target.value)}
+                            className="slider-track w-full"
+                        />
+                    </>
+                )}
+                {styles.fontWeight === 'inherit' && (
+                    <div className="text-xs py-1" style={{ color: 'var(--text-secondary)' }}>
+                        원본 유지
+                    </div>
+                )}
+            </div>
+
+            {/* 문단 최대 너비 */}
+            <div>
+                <div className="flex justify-between items-center text-xs mb-1.5">
+                    <span style={{ color: 'var(--text-secondary)' }}>최대 너비</span>
+                    <label className="toggle-switch" style={{ transform: 'scale(0.8)' }}>
+                        <input
+                            type="checkbox"
+                            checked={styles.maxWidth > 0}
+                            onChange={(e) => onChange('maxWidth', e.target.checked ? DEFAULT_MAX_WIDTH : 0)}
+                        />
+                        <span className="toggle-slider"></span>
+                    </label>
+                </div>
+                {styles.maxWidth > 0 ? (
+                    <>
+                        <div className="flex justify-between text-xs mb-1">
+                            <span></span>
+                            <span>{styles.maxWidth}자</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="40"
+                            max="120"
+                            step="5"
+                            value={styles.maxWidth}
+                            onChange={(e) => onChange('maxWidth', parseInt(e.target.value))}
+                            className="slider-track w-full"
+                        />
+                    </>
+                ) : (
+                    <div className="text-xs py-1" style={{ color: 'var(--text-secondary)' }}>
+                        원본 유지
+                    </div>
+                )}
+            </div>
+
+            {/* 문단 간격 */}
+            <div>
+                <div className="flex justify-between text-xs mb-1.5">
+                    <span style={{ color: 'var(--text-secondary)' }}>문단 간격</span>
+                    <span>{styles.paragraphSpacing > 0 ? `${styles.paragraphSpacing}em` : '원본 유지'}</span>
+                </div>
+                <input
+                    type="range"
+                    min="0"
+                    max="3"
+                    step="0.25"
+                    value={styles.paragraphSpacing}
+                    onChange={(e) => onChange('paragraphSpacing', parseFloat(e.target.value))}
+                    className="slider-track w-full"
+                />
+            </div>
+
+            {/* 들여쓰기 */}
+            <div>
+                <div className="flex justify-between text-xs mb-1.5">
+                    <span style={{ color: 'var(--text-secondary)' }}>첫 줄 들여쓰기</span>
+                    <span>{styles.textIndent > 0 ? `${styles.textIndent}em` : '원본 유지'}</span>
+                </div>
+                <input
+                    type="range"
+                    min="0"
+                    max="4"
+                    step="0.5"
+                    value={styles.textIndent}
+                    onChange={(e) => onChange('textIndent', parseFloat(e.target.value))}
+                    className="slider-track w-full"
+                />
+            </div>
+
+            {/* 정렬 */}
+            <div>
+                <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                    문단 정렬
+                </label>
+                <select
+                    value={styles.textAlign}
+                    onChange={(e) => onChange('textAlign', e.target.value as TextAlign)}
+                    className="input-field"
+                >
+                    {(Object.keys(TEXT_ALIGN_LABELS) as TextAlign[]).map((align) => (
+                        <option key={align} value={align}>{TEXT_ALIGN_LABELS[align]}</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+}
+
+export default StyleControls;
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import {
+    TypographyRole,
+    TypographySettings,
+    DEFAULT_ROLE_STYLES,
+    DEFAULT_COLOR_SETTINGS,
+    DEFAULT_READING_AIDS
+} from '../types/storage';
+import StyleControls from './StyleControls';
+import FontStackControls from './FontStackControls';
+import RoleControls from './RoleControls';
+import ColorControls from './ColorControls';
+import ReadingAidsControls from './ReadingAidsControls';
+
+type EditorTab = 'body' | TypographyRole | 'colors' | 'aids';
+
+const TABS: { id: EditorTab; label: string }[] = [
+    { id: 'body', label: '본문' },
+    { id: 'headings', label: '제목' },
+    { id: 'monospace', label: '코드' },
+    { id: 'colors', label: '색상' },
+    { id: 'aids', label: '보조' },
+];
+
+// 탭 이름 옆에 사용 중 표시
+function isTabInUse(tab: EditorTab, value: TypographySettings): boolean {
+    if (tab === 'body') return false;
+    if (tab === 'colors') {
+        return !!value.colors && (value.colors.theme !== 'original' || value.colors.minContrast > 0);
+    }
+    if (tab === 'aids') {
+        return !!value.aids && Object.values(value.aids).some(Boolean);
+    }
+    return !!value.roles?.[tab]?.enabled;
+}
+
+interface TypographyEditorProps {
+    fonts: string[];
+    value: TypographySettings;
+    onChange: (value: TypographySettings) => void;
+}
+
+// 역할별 탭으로 구성된 타이포그래피 편집기 (팝업, 프리셋 에디터, 전역 설정 공용)
+function TypographyEditor({ fonts, value, onChange }: TypographyEditorProps) {
+    const [activeTab, setActiveTab] = useState<EditorTab>('body');
+
+    return (
+        <div>
+            {/* 탭 */}
+            <div className="flex gap-1 mb-4 text-sm">
+                {TABS.map((tab) => (
+                    <button
+                        key={tab.id}
+                        onClick={() => setActiveTab(tab.id)}
+                        className="flex-1 px-3 py-1 rounded transition-colors"
+                        style={{
+                            backgroundColor: activeTab === tab.id ? 'var(--accent-muted)' : 'transparent',
+                            color: activeTab === tab.id ? 'var(--accent)' : 'var(--text-secondary)'
+                        }}
+                    >
+                        {tab.label}
+                        {isTabInUse(tab.id, value) && ' •'}
+                    </button>
+                ))}
+            </div>
+
+            {activeTab === 'body' ? (
+                <div className="space-y-4">
+                    {/* 폰트 선택 */}
+                    <div>
+                        <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                            폰트
+                        </label>
+                        <select
+                            value={value.fontFamily}
+                            onChange={(e) => onChange({ ...value, fontFamily: e.target.value })}
+                            className="input-field"
+                        >
+                            {fonts.map((font) => (
+                                <option key={font} value={font} style={{ fontFamily: font }}>
+                                    {font}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <StyleControls
+                        styles={value.styles}
+                        onChange={(key, styleValue) => onChange({
+                            ...value,
+                            styles: { ...value.styles, [key]: styleValue }
+                        })}
+                    />
+
+                    {/* 폰트 조합 (대체 폰트, 문자별 폰트) */}
+                    <details>
+                        <summary className="text-xs cursor-pointer" style={{ color: 'var(--text-secondary)' }}>
+                            폰트 조합
+                        </summary>
+                        <div className="mt-3">
+                            <FontStackControls
+                                fonts={fonts}
+                                value={value}
+                                onChange={(changes) => onChange({ ...value, ...changes })}
+                            />
+                        </div>
+                    </details>
+                </div>
+            ) : activeTab === 'colors' ? (
+                <ColorControls
+                    colors={value.colors || DEFAULT_COLOR_SETTINGS}
+                    onChange={(colors) => onChange({ ...value, colors })}
+                />
+            ) : activeTab === 'aids' ? (
+                <ReadingAidsControls
+                    aids={value.aids || DEFAULT_READING_AIDS}
+                    onChange={(aids) => onChange({ ...value, aids })}
+                />
+            ) : (
+                <RoleControls
+                    fonts={fonts}
+                    roleStyles={value.roles?.[activeTab] || DEFAULT_ROLE_STYLES[activeTab]}
+                    defaultFontLabel={activeTab === 'headings' ? '본문 폰트 사용' : '원본 폰트 유지'}
+                    onChange={(roleStyles) => onChange({
+                        ...value,
+                        roles: { ...value.roles, [activeTab]: roleStyles }
+                    })}
+                />
+            )}
+        </div>
+    );
+}
+
+export default TypographyEditor;
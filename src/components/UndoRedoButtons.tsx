@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { getSettingsHistory, isHistoryChange, undo, redo } from '../utils/storage';
+import { SettingsHistory } from '../types/storage';
+
+interface UndoRedoButtonsProps {
+    // 그사이 다른 곳에서 바뀌어 되돌리지 못한 경우
+    onConflict: (message: string) => void;
+}
+
+// 설정 되돌리기 / 다시 실행 (팝업, 옵션 공용)
+// 결과는 storage.onChanged를 통해 각 화면과 탭에 반영됨
+function UndoRedoButtons({ onConflict }: UndoRedoButtonsProps) {
+    const [history, setHistory] = useState<SettingsHistory>({ undo: [], redo: [] });
+
+    useEffect(() => {
+        getSettingsHistory().then(setHistory);
+
+        const listener = (changes: { [key: string]: chrome.storage.StorageChange }, namespace: string) => {
+            if (isHistoryChange(changes, namespace)) {
+                getSettingsHistory().then(setHistory);
+            }
+        };
+        chrome.storage.onChanged.addListener(listener);
+        return () => chrome.storage.onChanged.removeListener(listener);
+    }, []);
+
+    const lastUndo = history.undo[history.undo.length - 1];
+    const lastRedo = history.redo[history.redo.length - 1];
+
+    async function handleUndo() {
+        if (!await undo()) {
+            onConflict(`"${lastUndo?.label}" 이후 다른 곳에서 설정이 바뀌어 되돌릴 수 없습니다.`);
+        }
+    }
+
+    async function handleRedo() {
+        if (!await redo()) {
+            onConflict(`"${lastRedo?.label}" 이후 다른 곳에서 설정이 바뀌어 다시 실행할 수 없습니다.`);
+        }
+    }
+
+    return (
+        <div className="flex items-center gap-1">
+            <button
+                onClick={handleUndo}
+                disabled={!lastUndo}
+                title={lastUndo ? `되돌리기: ${lastUndo.label}` : '되돌릴 변경 없음'}
+                className="text-xs px-2 py-1 rounded hover:bg-white/5 disabled:opacity-40"
+                style={{ color: 'var(--text-secondary)' }}
+            >
+                ↶ 되돌리기
+            </button>
+            <button
+                onClick={handleRedo}
+                disabled={!lastRedo}
+                title={lastRedo ? `다시 실행: ${lastRedo.label}` : '다시 실행할 변경 없음'}
+                className="text-xs px-2 py-1 rounded hover:bg-white/5 disabled:opacity-40"
+                style={{ color: 'var(--text-secondary)' }}
+            >
+                ↷ 다시 실행
+            </button>
+        </div>
+    );
+}
+
+export default UndoRedoButtons;
@@ -0,0 +1,139 @@
+// 최소 명암비 (WCAG) 보정
+// 글자색은 요소마다 다르고 실제로 보이는 배경은 계산된 스타일로만 알 수 있으므로 CSS가 아닌 스크립트로 처리
+// (문서 DOM을 감시하지 않으므로 적용 이후에 추가된 내용은 다음 적용 때 보정됨)
+
+type RGB = [number, number, number];
+
+// 한 번에 검사할 최대 요소 수 (아주 긴 페이지에서 멈추지 않도록)
+const MAX_ELEMENTS = 3000;
+
+// 글자색을 바꾼 요소와 원래 인라인 color (해제할 때 되돌림)
+const adjustedElements = new Map<HTMLElement, { value: string; priority: string }>();
+
+let targetRatio = 0;
+let isScheduled = false;
+
+function parseColor(value: string): { rgb: RGB; alpha: number } | null {
+    const match = value.match(/^rgba?\(([\d.]+),\s*([\d.]+),\s*([\d.]+)(?:,\s*([\d.]+))?\)$/);
+    if (!match) return null;
+    return {
+        rgb: [Number(match[1]), Number(match[2]), Number(match[3])],
+        alpha: match[4] === undefined ? 1 : Number(match[4]),
+    };
+}
+
+// 상대 휘도 (WCAG 2.x)
+function luminance([r, g, b]: RGB): number {
+    const channel = (value: number) => {
+        const c = value / 255;
+        return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+function contrastRatio(a: RGB, b: RGB): number {
+    const [lighter, darker] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+    return (lighter + 0.05) / (darker + 0.05);
+}
+
+// 배경이 투명하면 부모로 올라가며 실제로 보이는 배경색 찾기 (끝까지 없으면 흰색)
+function findBackground(element: Element, cache: Map<Element, RGB>): RGB {
+    const cached = cache.get(element);
+    if (cached) return cached;
+
+    const background = parseColor(getComputedStyle(element).backgroundColor);
+    const result: RGB = background && background.alpha >= 0.5
+        ? background.rgb
+        : element.parentElement ? findBackground(element.parentElement, cache) : [255, 255, 255];
+
+    cache.set(element, result);
+    return result;
+}
+
+// 배경과 반대 방향(검정 또는 흰색)으로 목표 명암비가 될 때까지만 글자색 조정
+function adjustColor(text: RGB, background: RGB, minRatio: number): RGB {
+    const target: RGB = contrastRatio([0, 0, 0], background) >= contrastRatio([255, 255, 255], background)
+        ? [0, 0, 0]
+        : [255, 255, 255];
+    const mix = (t: number): RGB => text.map((c, i) => Math.round(c + (target[i] - c) * t)) as RGB;
+
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 8; i++) {
+        const mid = (low + high) / 2;
+        if (contrastRatio(mix(mid), background) >= minRatio) {
+            high = mid;
+        } else {
+            low = mid;
+        }
+    }
+    return mix(high);
+}
+
+function restoreColors(): void {
+    for (const [element, original] of adjustedElements) {
+        element.style.setProperty('color', original.value, original.priority);
+    }
+    adjustedElements.clear();
+}
+
+// 글자를 직접 가진 요소 (빈 줄만 있는 요소는 제외)
+function collectTextElements(): HTMLElement[] {
+    const elements = new Set<HTMLElement>();
+    if (!document.body) return [];
+
+    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node && elements.size < MAX_ELEMENTS; node = walker.nextNode()) {
+        const parent = node.parentElement;
+        if (parent instanceof HTMLElement && node.nodeValue?.trim()) {
+            elements.add(parent);
+        }
+    }
+    return [...elements];
+}
+
+function applyContrast(minRatio: number): void {
+    restoreColors();
+    if (minRatio <= 0) return;
+
+    // 계산된 스타일을 모두 읽은 뒤 한꺼번에 써서 스타일 재계산을 한 번만 하도록 함
+    const backgrounds = new Map<Element, RGB>();
+    const changes: [HTMLElement, RGB][] = [];
+
+    for (const element of collectTextElements()) {
+        const color = parseColor(getComputedStyle(element).color);
+        if (!color) continue;
+
+        const background = findBackground(element, backgrounds);
+        if (contrastRatio(color.rgb, background) < minRatio) {
+            changes.push([element, adjustColor(color.rgb, background, minRatio)]);
+        }
+    }
+
+    for (const [element, [r, g, b]] of changes) {
+        adjustedElements.set(element, {
+            value: element.style.getPropertyValue('color'),
+            priority: element.style.getPropertyPriority('color'),
+        });
+        element.style.setProperty('color', `rgb(${r}, ${g}, ${b})`, 'important');
+    }
+}
+
+// 최소 명암비 설정 (0이면 해제)
+// 스타일 적용 직후 여러 번 호출되어도 DOM이 준비된 뒤 유휴 시간에 한 번만 검사
+export function setMinContrast(ratio: number): void {
+    targetRatio = ratio;
+    if (isScheduled || (ratio <= 0 && adjustedElements.size === 0)) return;
+    isScheduled = true;
+
+    const run = () => {
+        isScheduled = false;
+        applyContrast(targetRatio);
+    };
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', run, { once: true });
+    } else {
+        requestIdleCallback(run, { timeout: 500 });
+    }
+}
@@ -1,163 +1,515 @@
-import { SiteSettings, ApplyStylesMessage, ExtensionMessage } from '../types/storage';
+import {
+    SiteSettings,
+    SiteStyles,
+    RoleStyles,
+    ColorSettings,
+    TypographyRole,
+    ApplyStylesMessage,
+    StartPickerMessage,
+    ExtensionMessage,
+    WebFont,
+    DEFAULT_EXCLUSIONS,
+    DARK_THEME_COLORS
+} from '../types/storage';
+import { buildFontStack, quoteFamily } from '../utils/fontStack';
+import { filterValidSelectors, generateSelector } from '../utils/selectors';
+import {
+    getPageSettings,
+    setEarlyStyles,
+    addSiteSelector,
+    isSettingsChange,
+    isWebFontsChange
+} from '../utils/storage';
+import { startPicker } from './picker';
+import { startShadowStyleSync, setShadowStyles } from './shadowRoots';
+import { URL_CHANGE_EVENT } from './pageBridge';
+import { setMinContrast } from './contrast';
+import {
+    EmphasisTarget,
+    setReadingAids,
+    dyslexiaFontFaceCSS,
+    DYSLEXIA_FONT_FAMILY,
+    EDITABLE_SELECTORS
+} from './readingAids';
+import { setWebFontFaces } from './webFontLoader';
 
 const STYLE_ID = 'readable-font-fix';
 
-// 현재 도메인 추출
-function getCurrentDomain(): string {
-    return window.location.hostname;
+// iframe이면 최상위 페이지 설정의 framePolicy에 따라 적용 (백그라운드에서 결정)
+const IS_TOP_FRAME = window === window.top;
+
+// 현재 적용 중인 스타일 태그 (페이지가 지우면 다시 붙임)
+let appliedStyleElement: HTMLStyleElement | null = null;
+
+// 현재 설정이 쓰는 웹 폰트 (설정과 함께 받음)
+let webFonts: WebFont[] = [];
+
+// 모든 사이트 공통 제외 선택자 (아이콘 폰트 보호)
+let defaultExclusions: string[] = DEFAULT_EXCLUSIONS;
+
+// 현재 URL (사이트 규칙 매칭용)
+function getCurrentUrl(): string {
+    return window.location.href;
+}
+
+// 역할별 대상 선택자
+const ROLE_SELECTORS: Record<TypographyRole, string[]> = {
+    headings: ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'],
+    monospace: ['code', 'pre', 'kbd', 'samp', '.mono', '[class*="monospace"]'],
+};
+
+// 역할 크기 조절 시 기준 크기 (브라우저 기본 제목 크기)
+const HEADING_BASE_SIZES: { [tag: string]: number } = {
+    h1: 2, h2: 1.5, h3: 1.17, h4: 1, h5: 0.83, h6: 0.67,
+};
+
+// 확장 프로그램 스타일을 담는 cascade layer
+// 레이어 안의 !important 선언은 페이지(레이어 밖)의 !important 선언보다 우선하므로
+// 선택자 우선순위를 올리지 않아도 되고, 제외할 요소는 revert-layer로 페이지 원래 값으로 되돌림
+// (예전처럼 모든 요소에 :not()을 여러 개 이어 붙여 검사하지 않음)
+const LAYER_NAME = 'readable-font';
+
+// 본문/역할 규칙이 설정하는 속성 (font-size는 html과 제목 크기에만 따로 적용)
+const LAYER_PROPERTIES = ['font-family', 'font-weight', 'line-height', 'letter-spacing', 'word-spacing'] as const;
+
+type LayerDeclarations = Partial<Record<typeof LAYER_PROPERTIES[number], string>>;
+
+// 지정하지 않은 속성은 revert-layer (페이지 원래 값 유지)
+function toDeclarations(values: LayerDeclarations): string {
+    return LAYER_PROPERTIES
+        .map(property => `${property}: ${values[property] || 'revert-layer'} !important;`)
+        .join(' ');
+}
+
+// 읽기 레이아웃(최대 너비, 정렬)을 적용할 텍스트 블록
+// (컨테이너 너비를 바꾸면 사이트 레이아웃이 깨질 수 있으므로 문단 단위로만 제한)
+const TEXT_BLOCK_SELECTORS = ['p', 'li', 'dd', 'blockquote', 'figcaption'];
+
+// 레이아웃 규칙이 설정하는 속성 (제외 요소에서는 되돌림)
+const LAYOUT_PROPERTIES = ['max-inline-size', 'margin-block', 'text-align', 'text-indent'];
+
+// 최대 너비, 정렬은 텍스트 블록에, 문단 간격과 들여쓰기는 문단(p)에만 적용 (0/inherit이면 원본 유지)
+function generateLayoutCSS(styles: SiteStyles, scopePrefix: string): string {
+    const blockDeclarations = [
+        styles.maxWidth > 0 && `max-inline-size: ${styles.maxWidth}ch !important;`,
+        styles.textAlign !== 'inherit' && `text-align: ${styles.textAlign} !important;`,
+    ].filter(Boolean).join(' ');
+
+    const paragraphDeclarations = [
+        styles.paragraphSpacing > 0 && `margin-block: ${styles.paragraphSpacing}em !important;`,
+        styles.textIndent > 0 && `text-indent: ${styles.textIndent}em !important;`,
+    ].filter(Boolean).join(' ');
+
+    let css = '';
+    if (blockDeclarations) {
+        css += `
+    :where(${scopePrefix}:is(${TEXT_BLOCK_SELECTORS.join(', ')})) { ${blockDeclarations} }`;
+    }
+    if (paragraphDeclarations) {
+        css += `
+    :where(${scopePrefix}p) { ${paragraphDeclarations} }`;
+    }
+    return css;
+}
+
+// 색 규칙이 설정하는 속성 (제외 요소에서는 되돌림)
+const COLOR_PROPERTIES = ['color', 'background-color'];
+
+// 색상 CSS (배경은 문서와 shadow root에서 대상이 다르므로 따로 생성)
+interface ColorCSS {
+    elementCSS: string;
+    documentCSS: string;
+    shadowCSS: string;
+}
+
+// 가져온 설정 파일 등에서 온 값이 CSS를 깨뜨리지 않도록 올바른 색만 사용
+function validColor(value: string): string {
+    return value && CSS.supports('color', value) ? value : '';
+}
+
+function generateColorCSS(colors: ColorSettings | undefined, scopeSelector: string): ColorCSS {
+    const palette = colors?.theme === 'dark' ? DARK_THEME_COLORS
+        : colors?.theme === 'custom' ? colors
+        : null;
+    if (!palette) return { elementCSS: '', documentCSS: '', shadowCSS: '' };
+
+    const textColor = validColor(palette.textColor);
+    const linkColor = validColor(palette.linkColor);
+    const backgroundColor = validColor(palette.backgroundColor);
+    const scopePrefix = scopeSelector ? `${scopeSelector} ` : '';
+
+    let elementCSS = '';
+    if (textColor) {
+        const selector = scopeSelector ? `:where(${scopeSelector}, ${scopeSelector} *)` : '*';
+        elementCSS += `
+    ${selector} { color: ${textColor} !important; }`;
+    }
+    if (linkColor) {
+        elementCSS += `
+    :where(${scopePrefix}a:any-link, ${scopePrefix}a:any-link *) { color: ${linkColor} !important; }`;
+    }
+
+    // 배경은 페이지(또는 적용 범위) 바탕에만 지정
+    // 어두운 테마는 안쪽 요소의 밝은 배경색을 지워 글자가 잘 보이게 함 (background-image는 유지)
+    const isDark = colors?.theme === 'dark';
+    const backgroundTarget = scopeSelector || 'html, body';
+    let documentCSS = isDark ? `
+    html { color-scheme: dark !important; }` : '';
+    let shadowCSS = '';
+
+    if (backgroundColor) {
+        documentCSS += `
+    :where(${backgroundTarget}) { background-color: ${backgroundColor} !important; }`;
+    }
+    if (isDark) {
+        documentCSS += `
+    :where(${scopeSelector || 'body'} *) { background-color: transparent !important; }`;
+        shadowCSS += `
+    :where(${scopePrefix}*) { background-color: transparent !important; }`;
+    }
+
+    return { elementCSS, documentCSS, shadowCSS };
+}
+
+// font-weight가 'inherit'이면 원래 사이트 굵기 유지
+function fontWeightValue(fontWeight: string): string | undefined {
+    return fontWeight === 'inherit' ? undefined : fontWeight;
+}
+
+// 역할(제목, 코드) CSS 생성
+// 레이어 안의 규칙은 :where()로 우선순위를 0으로 맞춰 뒤에 오는 제외/포함 규칙이 항상 이기도록 함
+function generateRoleCSS(
+    role: TypographyRole,
+    roleStyles: RoleStyles,
+    bodyFontFamilyCSS: string,
+    scopePrefix: string
+): string {
+    const targets = ROLE_SELECTORS[role].join(', ');
+
+    // 제목은 본문 폰트 체인, 코드는 monospace로 대체
+    const fallbackCSS = role === 'headings' ? bodyFontFamilyCSS : 'monospace';
+    const fontFamilyCSS = roleStyles.fontFamily
+        ? `${quoteFamily(roleStyles.fontFamily)}, ${fallbackCSS}`
+        : role === 'headings' ? bodyFontFamilyCSS : '';
+
+    let css = `
+    :where(${scopePrefix}:is(${targets}), ${scopePrefix}:is(${targets}) *) { ${toDeclarations({
+        'font-family': fontFamilyCSS,
+        'line-height': String(roleStyles.lineHeight),
+        'font-weight': fontWeightValue(roleStyles.fontWeight),
+    })} }`;
+
+    // 크기 조절 (1이면 원본 유지, 중첩된 요소에는 다시 적용하지 않음)
+    if (roleStyles.fontSizeScale !== 1) {
+        if (role === 'headings') {
+            css += ROLE_SELECTORS.headings.map(tag => `
+    :where(${scopePrefix}${tag}) { font-size: ${(HEADING_BASE_SIZES[tag] * roleStyles.fontSizeScale).toFixed(3)}rem !important; }`
+            ).join('');
+        } else {
+            css += `
+    :where(${scopePrefix}:is(${targets}):not(:is(${targets}) *)) { font-size: ${roleStyles.fontSizeScale}em !important; }`;
+        }
+    }
+
+    return css;
+}
+
+// 문서용 CSS와 shadow root용 CSS
+// shadow root 안의 @font-face는 무시되므로 문서에만 넣고, font-size 기준인 html 규칙도 문서에만 적용
+interface GeneratedCSS {
+    documentCSS: string;
+    shadowCSS: string;
+}
+
+// 스타일시트, FontFace API로 불러올 웹 폰트, 단어 강조 범위
+interface GeneratedStyles {
+    css: GeneratedCSS;
+    webFontFaces: string[];
+    emphasisTarget: EmphasisTarget;
 }
 
 // CSS 생성
-function generateCSS(settings: SiteSettings): string {
-    const { fontFamily, styles } = settings;
-
-    // 아이콘 폰트 보호를 위한 선택자
-    const iconExclusions = [
-        'i',
-        '[class*="icon"]',
-        '[class*="Icon"]',
-        '[class*="fa-"]',
-        '[class*="fa "]',
-        '[class*="fas "]',
-        '[class*="far "]',
-        '[class*="fab "]',
-        '[class*="material-icons"]',
-        '[class*="glyphicon"]',
-        '[class*="emoji"]',
-        'svg',
-        'svg *',
-        'code',
-        'pre',
-        'kbd',
-        '.mono',
-        '[class*="monospace"]'
-    ];
+function generateCSS(settings: SiteSettings): GeneratedStyles {
+    const { styles } = settings;
+
+    const enabledRoles = (Object.keys(ROLE_SELECTORS) as TypographyRole[])
+        .filter(role => settings.roles?.[role]?.enabled);
+
+    // 공통 제외 목록 + 사이트별 제외 목록 (잘못된 선택자는 무시)
+    const exclusions = filterValidSelectors([...defaultExclusions, ...(settings.excludeSelectors || [])]);
+    const includes = filterValidSelectors(settings.includeSelectors);
+
+    // 적용 범위가 지정되면 해당 요소 안에서만 적용
+    const scopes = filterValidSelectors(settings.scopeSelectors);
+    const scopeSelector = scopes.length > 0 ? `:is(${scopes.join(', ')})` : '';
+    const scopePrefix = scopeSelector ? `${scopeSelector} ` : '';
 
-    const notSelectors = iconExclusions.map(s => `:not(${s})`).join('');
     const fontSizePercent = ((styles.fontSizeScale || 1) * 100).toFixed(0);
 
-    // font-weight가 'inherit'이면 원래 사이트 굵기 유지
-    const fontWeightCSS = styles.fontWeight === 'inherit'
+    // 폰트 체인 (문자 체계별 폰트, 대체 폰트, 웹 폰트)
+    const fontStack = buildFontStack(settings, webFonts);
+
+    // 난독증용 폰트는 영문에만 적용되도록 체인 맨 앞에 추가 (입력창은 원래 체인 유지)
+    const useDyslexiaFont = !!settings.aids?.dyslexiaFont;
+    const fontFaceCSS = useDyslexiaFont ? fontStack.fontFaceCSS + dyslexiaFontFaceCSS() : fontStack.fontFaceCSS;
+    const fontFamilyCSS = useDyslexiaFont
+        ? `"${DYSLEXIA_FONT_FAMILY}", ${fontStack.fontFamilyCSS}`
+        : fontStack.fontFamilyCSS;
+    const editableCSS = useDyslexiaFont
+        ? `:where(${EDITABLE_SELECTORS.join(', ')}) { font-family: ${fontStack.fontFamilyCSS} !important; }`
+        : '';
+
+    const bodyDeclarations = toDeclarations({
+        'font-family': fontFamilyCSS,
+        'line-height': String(styles.lineHeight),
+        'letter-spacing': styles.letterSpacing,
+        'word-spacing': styles.wordSpacing,
+        'font-weight': fontWeightValue(styles.fontWeight),
+    });
+
+    // 본문 규칙은 단순 선택자 하나로 모든 요소에 적용
+    // (범위 선택자는 shadow root 안에서는 같은 root 안의 요소만 기준이 됨)
+    const bodySelector = scopeSelector ? `:where(${scopeSelector}, ${scopeSelector} *)` : '*';
+
+    // monospace는 역할이 꺼져 있어도 원본 폰트 유지
+    const monospaceTargets = ROLE_SELECTORS.monospace.join(', ');
+    const monospaceCSS = enabledRoles.includes('monospace')
         ? ''
-        : `font-weight: ${styles.fontWeight} !important;`;
+        : `:where(:is(${monospaceTargets}), :is(${monospaceTargets}) *) { ${toDeclarations({})} }`;
 
-    // font-size는 html에만 적용 (중첩 방지)
-    // 나머지 스타일은 모든 요소에 적용
-    return `
-    html {
-      font-size: ${fontSizePercent}% !important;
-    }
-    *${notSelectors} {
-      font-family: "${fontFamily}", sans-serif !important;
-      line-height: ${styles.lineHeight} !important;
-      letter-spacing: ${styles.letterSpacing} !important;
-      word-spacing: ${styles.wordSpacing} !important;
-      ${fontWeightCSS}
-    }
+    const roleCSS = enabledRoles
+        .map(role => generateRoleCSS(role, settings.roles![role]!, fontFamilyCSS, scopePrefix))
+        .join('');
+
+    const layoutCSS = generateLayoutCSS(styles, scopePrefix);
+    const colorCSS = generateColorCSS(settings.colors, scopeSelector);
+
+    // 제외 선택자는 하나로 묶지 않고 최상위 목록으로 두어 브라우저가 태그/클래스/속성별로 빠르게 거르게 함
+    // 각 항목은 :is()로 감싸 ".a, .b" 같은 목록에도 :not() 조건이 모두 붙도록 함
+    // (포함 선택자에 해당하는 요소는 제외하지 않음)
+    const notIncluded = includes.length > 0 ? `:not(:is(${includes.join(', ')}))` : '';
+    const revertedProperties = [
+        ...(layoutCSS ? LAYOUT_PROPERTIES : []),
+        ...(colorCSS.elementCSS || colorCSS.shadowCSS ? COLOR_PROPERTIES : []),
+    ];
+    const revertCSS = revertedProperties.map(property => ` ${property}: revert-layer !important;`).join('');
+    const excludedSelector = exclusions.map(s => `:is(${s})${notIncluded}`).join(', ');
+    const exclusionCSS = excludedSelector
+        ? `${excludedSelector} { ${toDeclarations({})}${revertCSS} }`
+        : '';
+
+    // 포함 선택자는 제외 목록, monospace와 관계없이 본문 스타일 적용
+    const includeCSS = includes.length > 0
+        ? `${scopePrefix}:is(${includes.join(', ')}) { ${bodyDeclarations} }`
+        : '';
+
+    // 순서가 중요함: 뒤의 규칙이 같은 우선순위의 앞 규칙을 덮어씀
+    const elementCSS = `
+    ${bodySelector} { ${bodyDeclarations} }
+    ${monospaceCSS}
+    ${roleCSS}
+    ${colorCSS.elementCSS}
+    ${layoutCSS}
+    ${editableCSS}
+    ${exclusionCSS}
+    ${includeCSS}
   `;
+
+    // font-size는 html에만 적용 (중첩 방지)
+    return {
+        css: {
+            documentCSS: `
+    ${fontFaceCSS}
+    @layer ${LAYER_NAME} {
+    html { font-size: ${fontSizePercent}% !important; }
+    ${colorCSS.documentCSS}
+    ${elementCSS}
+    }`,
+            shadowCSS: `@layer ${LAYER_NAME} {${colorCSS.shadowCSS}${elementCSS}}`,
+        },
+        webFontFaces: fontStack.webFontFaces,
+        emphasisTarget: { scopeSelector, excludedSelector },
+    };
 }
 
-// 스타일 태그 주입
-function injectStyles(settings: SiteSettings): void {
-    removeStyles(); // 기존 스타일 제거
+// 스타일 태그 주입 (같은 CSS가 이미 적용되어 있으면 그대로 둠)
+function applyCSS({ documentCSS, shadowCSS }: GeneratedCSS): void {
+    if (appliedStyleElement?.isConnected && appliedStyleElement.textContent === documentCSS) {
+        setShadowStyles(shadowCSS);
+        return;
+    }
+
+    removeStyleElement(); // 기존 스타일 제거
 
     const styleElement = document.createElement('style');
     styleElement.id = STYLE_ID;
-    styleElement.textContent = generateCSS(settings);
+    styleElement.textContent = documentCSS;
 
     // document.head가 없으면 documentElement에 추가
     const target = document.head || document.documentElement;
     target.appendChild(styleElement);
+    appliedStyleElement = styleElement;
+
+    // 웹 컴포넌트 내부 (열린 shadow root)
+    setShadowStyles(shadowCSS);
 }
 
-// 스타일 태그 제거
-function removeStyles(): void {
+// 스타일 적용 (적용한 CSS를 반환)
+function injectStyles(settings: SiteSettings): GeneratedCSS {
+    const { css, webFontFaces, emphasisTarget } = generateCSS(settings);
+    applyCSS(css);
+    setWebFontFaces(webFontFaces);
+    setMinContrast(settings.colors?.minContrast || 0);
+    setReadingAids(settings.aids, emphasisTarget);
+    return css;
+}
+
+function removeStyleElement(): void {
+    appliedStyleElement = null;
     const existingStyle = document.getElementById(STYLE_ID);
     if (existingStyle) {
         existingStyle.remove();
     }
 }
 
-// 스토리지에서 현재 도메인 설정 로드 및 적용
+// 스타일 태그 제거 (명암비 보정, 읽기 보조도 해제)
+function removeStyles(): void {
+    removeStyleElement();
+    setShadowStyles('');
+    setWebFontFaces([]);
+    setMinContrast(0);
+    setReadingAids(null);
+}
+
+// 현재 URL에 적용할 설정 (전역 → 사이트)을 백그라운드에서 받아 적용
+// (백그라운드가 첫 페인트 전에 넣은 CSS는 이 스타일로 대체되고, 다음 방문을 위해 갱신됨)
 async function loadAndApplySettings(): Promise<void> {
-    const domain = getCurrentDomain();
+    const url = getCurrentUrl();
 
     try {
-        const result = await chrome.storage.sync.get({
-            favoriteFonts: [],
-            siteSettings: {}
-        });
+        const pageSettings = await getPageSettings(url);
+        defaultExclusions = pageSettings.defaultExclusions;
+        webFonts = pageSettings.webFonts;
 
-        const siteSettings = result.siteSettings[domain];
-
-        if (siteSettings && siteSettings.isActive) {
-            injectStyles(siteSettings);
+        if (pageSettings.settings) {
+            const css = injectStyles(pageSettings.settings);
+            if (IS_TOP_FRAME) setEarlyStyles(url, css.documentCSS);
         } else {
             removeStyles();
+            if (IS_TOP_FRAME) setEarlyStyles(url, null);
         }
     } catch (error) {
         console.error('[Readable] Failed to load settings:', error);
     }
 }
 
+// 마지막으로 우클릭한 요소 (컨텍스트 메뉴의 "이 요소 제외"용)
+let lastContextTarget: Element | null = null;
+
+document.addEventListener('contextmenu', (e) => {
+    lastContextTarget = e.target instanceof Element ? e.target : null;
+}, true);
+
 // 메시지 리스너 (팝업에서 실시간 스타일 적용)
 chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendResponse) => {
     if (message.action === 'APPLY_STYLES') {
         const msg = message as ApplyStylesMessage;
 
-        if (msg.settings) {
+        // 탭의 모든 프레임에 최상위 페이지 설정이 전달되므로
+        // iframe은 최상위 설정을 물려받는 경우에만 그대로 적용하고, 아니면 자신의 설정을 다시 확인
+        if (!IS_TOP_FRAME && msg.settings?.framePolicy !== 'inherit') {
+            loadAndApplySettings();
+        } else if (msg.settings) {
             injectStyles(msg.settings);
         } else {
             removeStyles();
         }
 
         sendResponse({ success: true });
+    } else if (message.action === 'START_PICKER') {
+        const msg = message as StartPickerMessage;
+        const key = msg.target === 'exclude' ? 'excludeSelectors' : 'scopeSelectors';
+
+        // 저장되면 storage.onChanged를 통해 스타일이 다시 적용됨
+        startPicker((selector) => {
+            addSiteSelector(msg.pattern, key, selector);
+        });
+
+        sendResponse({ success: true });
+    } else if (message.action === 'GET_CONTEXT_SELECTOR') {
+        const selector = lastContextTarget?.isConnected ? generateSelector(lastContextTarget) : null;
+        sendResponse({ selector });
     }
 
     return true; // 비동기 응답을 위해 true 반환
 });
 
-// SPA 대응: MutationObserver로 스타일 태그 유지
-function setupMutationObserver(): void {
-    let isApplied = !!document.getElementById(STYLE_ID);
+// 스타일 태그 유지: <html>과 <head>의 직계 자식만 감시 (본문 DOM 변경에는 반응하지 않음)
+// 페이지가 <head>를 다시 그리면서 스타일 태그를 지워도 같은 태그를 다시 붙임
+let observedHead: HTMLHeadElement | null = null;
 
-    const observer = new MutationObserver((_mutations) => {
-        // 스타일이 적용되어 있었는데 사라진 경우 재적용
-        const styleExists = !!document.getElementById(STYLE_ID);
+const styleObserver = new MutationObserver(() => {
+    observeHead();
 
-        if (isApplied && !styleExists) {
-            // 스타일이 제거됨 - 재적용 시도
-            loadAndApplySettings();
-        }
+    const styleElement = appliedStyleElement;
+    if (styleElement && !styleElement.isConnected) {
+        (document.head || document.documentElement).appendChild(styleElement);
+    }
+});
 
-        isApplied = !!document.getElementById(STYLE_ID);
-    });
+// <head>는 document_start 시점에는 없을 수 있고, 페이지가 교체할 수도 있음
+function observeHead(): void {
+    const head = document.head;
+    if (head && head !== observedHead) {
+        observedHead = head;
+        styleObserver.observe(head, { childList: true });
+    }
+}
 
-    // DOM 변화 감시 시작
-    observer.observe(document.documentElement, {
-        childList: true,
-        subtree: true
-    });
+function setupStyleObserver(): void {
+    styleObserver.observe(document.documentElement, { childList: true });
+    observeHead();
+}
+
+// Navigation API (TypeScript DOM 타입에 아직 없어 필요한 부분만 선언)
+type WindowWithNavigation = Window & { navigation?: EventTarget };
+
+// SPA 라우팅으로 URL이 바뀐 경우 경로 규칙 재평가
+// (pushState/replaceState는 페이지 훅과 Navigation API로, 뒤로 가기와 해시 변경은 직접 받음)
+function setupUrlTracking(): void {
+    let lastUrl = getCurrentUrl();
+
+    const onUrlChange = () => {
+        const currentUrl = getCurrentUrl();
+        if (currentUrl === lastUrl) return;
+        lastUrl = currentUrl;
+        loadAndApplySettings();
+    };
+
+    window.addEventListener(URL_CHANGE_EVENT, onUrlChange);
+    window.addEventListener('popstate', onUrlChange);
+    window.addEventListener('hashchange', onUrlChange);
+
+    // 페이지 훅이 없어도(등록 전에 열린 탭, 훅을 막는 페이지) pushState/replaceState를 감지하도록
+    // Navigation API의 현재 항목 변경도 받음 (같은 URL이면 onUrlChange에서 무시)
+    (window as WindowWithNavigation).navigation?.addEventListener('currententrychange', onUrlChange);
 }
 
 // 스토리지 변경 감시 (다른 탭에서 설정 변경 시 반영)
 chrome.storage.onChanged.addListener((changes, namespace) => {
-    if (namespace === 'sync' && changes.siteSettings) {
+    if (isSettingsChange(changes, namespace) || isWebFontsChange(changes, namespace)) {
         loadAndApplySettings();
     }
 });
 
 // 초기화
 function init(): void {
+    setupStyleObserver();
+    setupUrlTracking();
+    startShadowStyleSync();
+
     // 페이지 로드 시 설정 적용
     loadAndApplySettings();
-
-    // DOM이 준비되면 MutationObserver 설정
-    if (document.readyState === 'loading') {
-        document.addEventListener('DOMContentLoaded', setupMutationObserver);
-    } else {
-        setupMutationObserver();
-    }
 }
 
 // 실행
@@ -0,0 +1,22 @@
+// 콘텐츠 스크립트와 페이지(MAIN world) 스크립트 사이의 통신
+// (서로 다른 JS 환경이라 문자열 같은 데이터는 window.postMessage로 주고받음)
+const BRIDGE_SOURCE = 'readable-font';
+
+export type BridgeMessage =
+    | { type: 'SHADOW_CSS'; css: string }   // 콘텐츠 → 페이지: shadow root에 적용할 CSS
+    | { type: 'PAGE_HOOK_READY' };          // 페이지 → 콘텐츠: 훅 설치 완료 (현재 CSS 요청)
+
+export function postBridgeMessage(message: BridgeMessage): void {
+    window.postMessage({ source: BRIDGE_SOURCE, ...message }, '*');
+}
+
+// 같은 창에서 보낸 확장 프로그램 메시지만 받음
+export function onBridgeMessage(listener: (message: BridgeMessage) => void): void {
+    window.addEventListener('message', (event: MessageEvent) => {
+        if (event.source !== window || event.data?.source !== BRIDGE_SOURCE) return;
+        listener(event.data as BridgeMessage);
+    });
+}
+
+// history.pushState/replaceState 호출 시 window에서 발생하는 이벤트 (SPA 라우팅 감지용)
+export const URL_CHANGE_EVENT = 'readable-url-change';
@@ -0,0 +1,84 @@
+import { onBridgeMessage, postBridgeMessage, URL_CHANGE_EVENT } from './pageBridge';
+
+// 페이지(MAIN world)에서 실행
+// 백그라운드가 registerContentScripts로 등록하며, 빌드 시 import까지 한 파일(IIFE)로 묶임 (vite.config.ts)
+// 콘텐츠 스크립트는 격리된 환경이라 페이지의 attachShadow, history 호출을 직접 감지할 수 없으므로
+// 여기서 가로채 shadow root에 스타일시트를 채택하고 URL 변경을 알림
+
+// 모든 shadow root가 함께 쓰는 스타일시트 (내용은 콘텐츠 스크립트가 보내줌)
+const shadowSheet = new CSSStyleSheet();
+
+// 스타일시트를 채택한 shadow root (열린 root만)
+const trackedRoots = new Set<ShadowRoot>();
+
+// 스타일시트가 빠져 있으면 다시 추가
+// (Lit 등은 attachShadow 직후 adoptedStyleSheets를 통째로 교체함)
+function ensureAdopted(root: ShadowRoot): void {
+    if (!root.adoptedStyleSheets.includes(shadowSheet)) {
+        root.adoptedStyleSheets = [...root.adoptedStyleSheets, shadowSheet];
+    }
+}
+
+function trackShadowRoot(root: ShadowRoot): void {
+    if (trackedRoots.has(root)) return;
+    trackedRoots.add(root);
+
+    ensureAdopted(root);
+    queueMicrotask(() => ensureAdopted(root));
+}
+
+// 훅 설치 전에 생긴 root와 선언적 shadow DOM(<template shadowrootmode>) 찾기
+function scanForShadowRoots(node: Document | ShadowRoot): void {
+    const walker = document.createTreeWalker(node, NodeFilter.SHOW_ELEMENT);
+    for (let current = walker.nextNode(); current; current = walker.nextNode()) {
+        const root = (current as Element).shadowRoot;
+        if (root && !trackedRoots.has(root)) {
+            trackShadowRoot(root);
+            scanForShadowRoots(root);
+        }
+    }
+}
+
+// attachShadow는 호스트가 문서에 붙기 전에 호출되는 경우가 많으므로
+// 문서 DOM을 감시하지 않고 생성 시점에 바로 채택
+const originalAttachShadow = Element.prototype.attachShadow;
+
+Element.prototype.attachShadow = function (this: Element, init: ShadowRootInit): ShadowRoot {
+    const root = originalAttachShadow.call(this, init);
+    if (init.mode === 'open') {
+        trackShadowRoot(root);
+    }
+    return root;
+};
+
+// SPA 라우팅 (popstate, hashchange는 콘텐츠 스크립트에서 직접 받을 수 있음)
+for (const method of ['pushState', 'replaceState'] as const) {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>): void {
+        original.apply(this, args);
+        window.dispatchEvent(new Event(URL_CHANGE_EVENT));
+    };
+}
+
+onBridgeMessage((message) => {
+    if (message.type !== 'SHADOW_CSS') return;
+
+    shadowSheet.replaceSync(message.css);
+
+    for (const root of trackedRoots) {
+        // 문서에서 떨어져 나간 root는 정리 (스타일시트는 채택된 상태로 남음)
+        if (!root.host.isConnected) {
+            trackedRoots.delete(root);
+            continue;
+        }
+        ensureAdopted(root);
+    }
+});
+
+// 콘텐츠 스크립트가 먼저 CSS를 보냈다면 놓쳤으므로 다시 요청
+postBridgeMessage({ type: 'PAGE_HOOK_READY' });
+
+scanForShadowRoots(document);
+if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', () => scanForShadowRoots(document));
+}
@@ -0,0 +1,111 @@
+import { generateSelector } from '../utils/selectors';
+
+const OVERLAY_ID = 'readable-picker-overlay';
+const LABEL_ID = 'readable-picker-label';
+
+let activeCleanup: (() => void) | null = null;
+
+function createOverlay(): { box: HTMLDivElement; label: HTMLDivElement } {
+    const box = document.createElement('div');
+    box.id = OVERLAY_ID;
+    box.style.cssText = [
+        'position: fixed',
+        'pointer-events: none',
+        'z-index: 2147483647',
+        'border: 2px solid #8FAE8B',
+        'background: rgba(143, 174, 139, 0.15)',
+        'border-radius: 2px',
+        'transition: all 50ms ease-out',
+    ].join(';');
+
+    const label = document.createElement('div');
+    label.id = LABEL_ID;
+    label.style.cssText = [
+        'position: fixed',
+        'pointer-events: none',
+        'z-index: 2147483647',
+        'padding: 2px 6px',
+        'background: #1a1a1a',
+        'color: #e8e8e8',
+        'font: 12px/1.4 monospace',
+        'border-radius: 4px',
+        'max-width: 480px',
+        'white-space: nowrap',
+        'overflow: hidden',
+        'text-overflow: ellipsis',
+    ].join(';');
+
+    document.documentElement.append(box, label);
+    return { box, label };
+}
+
+// 요소 선택 모드 시작 (클릭하면 선택자 전달, Esc로 취소)
+export function startPicker(onPick: (selector: string) => void): void {
+    stopPicker();
+
+    const { box, label } = createOverlay();
+    let hovered: Element | null = null;
+
+    function handleMouseMove(event: MouseEvent) {
+        const target = event.target as Element | null;
+        if (!target || target === hovered || target.id === OVERLAY_ID || target.id === LABEL_ID) return;
+
+        hovered = target;
+        const rect = target.getBoundingClientRect();
+        box.style.top = `${rect.top}px`;
+        box.style.left = `${rect.left}px`;
+        box.style.width = `${rect.width}px`;
+        box.style.height = `${rect.height}px`;
+
+        label.textContent = generateSelector(target);
+        label.style.top = `${Math.max(0, rect.top - 22)}px`;
+        label.style.left = `${Math.max(0, rect.left)}px`;
+    }
+
+    function handleClick(event: MouseEvent) {
+        event.preventDefault();
+        event.stopPropagation();
+
+        const target = hovered || (event.target as Element | null);
+        stopPicker();
+        if (target) {
+            onPick(generateSelector(target));
+        }
+    }
+
+    // 선택 중에는 페이지의 클릭 동작(링크 이동 등)을 막음
+    function blockEvent(event: Event) {
+        event.preventDefault();
+        event.stopPropagation();
+    }
+
+    function handleKeyDown(event: KeyboardEvent) {
+        if (event.key === 'Escape') {
+            event.preventDefault();
+            stopPicker();
+        }
+    }
+
+    document.addEventListener('mousemove', handleMouseMove, true);
+    document.addEventListener('click', handleClick, true);
+    document.addEventListener('mousedown', blockEvent, true);
+    document.addEventListener('mouseup', blockEvent, true);
+    document.addEventListener('keydown', handleKeyDown, true);
+
+    activeCleanup = () => {
+        document.removeEventListener('mousemove', handleMouseMove, true);
+        document.removeEventListener('click', handleClick, true);
+        document.removeEventListener('mousedown', blockEvent, true);
+        document.removeEventListener('mouseup', blockEvent, true);
+        document.removeEventListener('keydown', handleKeyDown, true);
+        box.remove();
+        label.remove();
+    };
+}
+
+export function stopPicker(): void {
+    if (activeCleanup) {
+        activeCleanup();
+        activeCleanup = null;
+    }
+}
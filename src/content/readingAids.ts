@@ -0,0 +1,255 @@
+import regularFontUrl from '@fontsource/opendyslexic/files/opendyslexic-latin-400-normal.woff2?url';
+import boldFontUrl from '@fontsource/opendyslexic/files/opendyslexic-latin-700-normal.woff2?url';
+import { ReadingAids, DEFAULT_READING_AIDS } from '../types/storage';
+import { SCRIPT_UNICODE_RANGES } from '../utils/fontStack';
+
+// 내장 난독증용 폰트 (페이지의 폰트 이름과 겹치지 않도록 별도 이름 사용)
+export const DYSLEXIA_FONT_FAMILY = 'Readable OpenDyslexic';
+
+// 입력창과 편집 가능한 영역 (읽기 보조를 적용하지 않음)
+export const EDITABLE_SELECTORS = [
+    'input',
+    'textarea',
+    'select',
+    '[contenteditable]:not([contenteditable="false"])',
+    '[contenteditable]:not([contenteditable="false"]) *',
+];
+
+// 영문 글꼴이므로 다른 문자는 원래 폰트 체인으로 넘김
+export function dyslexiaFontFaceCSS(): string {
+    const faces: [string, number][] = [[regularFontUrl, 400], [boldFontUrl, 700]];
+    return faces.map(([url, weight]) => `
+    @font-face {
+      font-family: "${DYSLEXIA_FONT_FAMILY}";
+      src: url("${chrome.runtime.getURL(url)}") format("woff2");
+      font-weight: ${weight};
+      font-display: swap;
+      unicode-range: ${SCRIPT_UNICODE_RANGES.latin};
+    }`).join('');
+}
+
+// ---------------------------------------------------------------------------
+// 단어 앞부분 강조
+// 텍스트 노드를 <b>로 나눈 span으로 바꾸므로, 해제할 때는 페이지 스크립트가 참조하고 있을 수 있는 원래 노드로 되돌림
+
+const EMPHASIS_ATTRIBUTE = 'data-readable-emphasis';
+
+// 강조하지 않을 요소 (편집 영역, 코드, 스크립트, 이미 변환한 텍스트)
+const EMPHASIS_SKIPPED_SELECTOR = [
+    ...EDITABLE_SELECTORS,
+    'script', 'style', 'noscript', 'code', 'pre', 'kbd', 'samp', 'svg', 'math',
+    `[${EMPHASIS_ATTRIBUTE}]`,
+].join(', ');
+
+// 강조할 범위 (폰트 규칙과 같이 사이트의 적용 범위 안에서, 제외 선택자에 해당하는 요소는 건너뜀)
+export interface EmphasisTarget {
+    scopeSelector: string;         // 비어 있으면 문서 전체
+    excludedSelector: string;      // 공통 제외 목록(아이콘 등) + 사이트 제외 목록 (포함 선택자는 빼고)
+}
+
+const DEFAULT_EMPHASIS_TARGET: EmphasisTarget = { scopeSelector: '', excludedSelector: '' };
+
+// 알파벳 문자 체계의 단어만 (한글, 한자 등은 음절 단위라 앞부분 강조가 의미 없음)
+const WORD_PATTERN = /[\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}]{2,}/gu;
+
+// 한 번에 변환할 최대 텍스트 노드 수
+const MAX_TEXT_NODES = 5000;
+
+// 변환한 span과 원래 텍스트 노드
+const emphasizedNodes = new Map<HTMLElement, Text>();
+
+function emphasizeTextNode(node: Text): void {
+    const text = node.nodeValue || '';
+    const fragment = document.createDocumentFragment();
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(WORD_PATTERN)) {
+        const word = match[0];
+        const index = match.index ?? 0;
+        const boldLength = Math.ceil(word.length / 2);
+
+        const bold = document.createElement('b');
+        bold.textContent = word.slice(0, boldLength);
+        fragment.append(text.slice(lastIndex, index), bold, word.slice(boldLength));
+        lastIndex = index + word.length;
+    }
+    if (lastIndex === 0) return;
+    fragment.append(text.slice(lastIndex));
+
+    const wrapper = document.createElement('span');
+    wrapper.setAttribute(EMPHASIS_ATTRIBUTE, '');
+    wrapper.append(fragment);
+    node.replaceWith(wrapper);
+    emphasizedNodes.set(wrapper, node);
+}
+
+// 스타일시트에서는 유효하지만 closest()에서는 쓸 수 없는 선택자(의사 요소 등)는 일치하지 않는 것으로 봄
+function closestMatch(element: Element, selector: string): Element | null {
+    try {
+        return element.closest(selector);
+    } catch {
+        return null;
+    }
+}
+
+function shouldEmphasize(element: Element, target: EmphasisTarget): boolean {
+    if (element.closest(EMPHASIS_SKIPPED_SELECTOR)) return false;
+    if (target.scopeSelector && !closestMatch(element, target.scopeSelector)) return false;
+    return !target.excludedSelector || !closestMatch(element, target.excludedSelector);
+}
+
+// 아직 변환하지 않은 텍스트만 변환 (SPA에서 다시 적용하면 새로 생긴 내용만 처리)
+function emphasizeDocument(target: EmphasisTarget): void {
+    if (!document.body) return;
+
+    const nodes: Text[] = [];
+    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node && nodes.length < MAX_TEXT_NODES; node = walker.nextNode()) {
+        if (node.nodeValue?.trim() && node.parentElement && shouldEmphasize(node.parentElement, target)) {
+            nodes.push(node as Text);
+        }
+    }
+    nodes.forEach(emphasizeTextNode);
+}
+
+function restoreEmphasis(): void {
+    for (const [wrapper, original] of emphasizedNodes) {
+        if (wrapper.isConnected) {
+            wrapper.replaceWith(original);
+        }
+    }
+    emphasizedNodes.clear();
+}
+
+// ---------------------------------------------------------------------------
+// 읽기 자 / 커서 강조 (페이지 CSS의 영향을 받지 않도록 닫힌 shadow root 안에 그림)
+
+const OVERLAY_CSS = `
+    .ruler, .spot { position: fixed; display: none; pointer-events: none; }
+    .ruler { left: 0; right: 0; box-shadow: 0 0 0 100vmax rgba(0, 0, 0, 0.4); }
+    .spot {
+      width: 72px; height: 72px; margin: -36px 0 0 -36px; border-radius: 50%;
+      border: 3px solid rgba(255, 190, 0, 0.9); background: rgba(255, 220, 0, 0.25);
+    }
+`;
+
+interface Overlay {
+    host: HTMLElement;
+    ruler: HTMLElement;
+    spot: HTMLElement;
+}
+
+let overlay: Overlay | null = null;
+let pointer: { x: number; y: number } | null = null;
+let isFramePending = false;
+
+function createOverlay(): Overlay {
+    const host = document.createElement('readable-reading-aids');
+    host.style.cssText = 'all: initial; position: fixed; inset: 0; pointer-events: none; z-index: 2147483647;';
+
+    const root = host.attachShadow({ mode: 'closed' });
+    const style = document.createElement('style');
+    style.textContent = OVERLAY_CSS;
+    const ruler = document.createElement('div');
+    ruler.className = 'ruler';
+    const spot = document.createElement('div');
+    spot.className = 'spot';
+    root.append(style, ruler, spot);
+
+    return { host, ruler, spot };
+}
+
+// 마우스 아래 글자의 줄 높이 (읽기 자 높이 기준)
+function lineHeightAt(x: number, y: number): number {
+    const element = document.elementFromPoint(x, y);
+    if (!element) return 24;
+
+    const style = getComputedStyle(element);
+    const lineHeight = parseFloat(style.lineHeight);
+    return isNaN(lineHeight) ? parseFloat(style.fontSize) * 1.2 : lineHeight;
+}
+
+function renderOverlay(): void {
+    isFramePending = false;
+    if (!overlay || !pointer) return;
+
+    const height = lineHeightAt(pointer.x, pointer.y) * 1.8;
+    overlay.ruler.style.top = `${pointer.y - height / 2}px`;
+    overlay.ruler.style.height = `${height}px`;
+    overlay.spot.style.left = `${pointer.x}px`;
+    overlay.spot.style.top = `${pointer.y}px`;
+}
+
+function handlePointerMove(e: MouseEvent): void {
+    pointer = { x: e.clientX, y: e.clientY };
+    if (!isFramePending) {
+        isFramePending = true;
+        requestAnimationFrame(renderOverlay);
+    }
+}
+
+function updateOverlay(aids: ReadingAids): void {
+    const isNeeded = aids.readingRuler || aids.cursorHighlight;
+
+    if (!isNeeded) {
+        if (overlay) {
+            overlay.host.remove();
+            overlay = null;
+            document.removeEventListener('mousemove', handlePointerMove, true);
+        }
+        return;
+    }
+
+    if (!overlay) {
+        overlay = createOverlay();
+        document.documentElement.appendChild(overlay.host);
+        document.addEventListener('mousemove', handlePointerMove, { capture: true, passive: true });
+    }
+    overlay.ruler.style.display = aids.readingRuler ? 'block' : 'none';
+    overlay.spot.style.display = aids.cursorHighlight ? 'block' : 'none';
+    renderOverlay();
+}
+
+// ---------------------------------------------------------------------------
+
+let isEmphasisEnabled = false;
+let isEmphasisScheduled = false;
+let emphasisTarget = DEFAULT_EMPHASIS_TARGET;
+
+// 읽기 보조 설정 적용 (null이면 모두 해제)
+// 글자 변환은 DOM이 준비된 뒤 유휴 시간에 한 번만 실행
+export function setReadingAids(
+    aids: ReadingAids | null | undefined,
+    target: EmphasisTarget = DEFAULT_EMPHASIS_TARGET
+): void {
+    const next = aids || DEFAULT_READING_AIDS;
+
+    updateOverlay(next);
+
+    isEmphasisEnabled = next.wordEmphasis;
+    if (!isEmphasisEnabled) {
+        restoreEmphasis();
+        return;
+    }
+
+    // 범위나 제외 목록이 바뀌면 되돌린 뒤 새 기준으로 다시 변환
+    if (target.scopeSelector !== emphasisTarget.scopeSelector
+        || target.excludedSelector !== emphasisTarget.excludedSelector) {
+        restoreEmphasis();
+    }
+    emphasisTarget = target;
+
+    if (isEmphasisScheduled) return;
+    isEmphasisScheduled = true;
+
+    const run = () => {
+        isEmphasisScheduled = false;
+        if (isEmphasisEnabled) emphasizeDocument(emphasisTarget);
+    };
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', run, { once: true });
+    } else {
+        requestIdleCallback(run, { timeout: 500 });
+    }
+}
@@ -0,0 +1,20 @@
+import { onBridgeMessage, postBridgeMessage } from './pageBridge';
+
+// shadow root용 CSS (페이지 스크립트가 attachShadow 시점에 채택하는 스타일시트의 내용)
+let shadowCSS = '';
+
+// shadow root용 CSS 적용 (빈 문자열이면 해제)
+export function setShadowStyles(css: string): void {
+    if (css === shadowCSS) return;
+    shadowCSS = css;
+    postBridgeMessage({ type: 'SHADOW_CSS', css });
+}
+
+// 페이지 훅이 늦게 설치되면 그 전에 보낸 CSS를 다시 보냄
+export function startShadowStyleSync(): void {
+    onBridgeMessage((message) => {
+        if (message.type === 'PAGE_HOOK_READY' && shadowCSS) {
+            postBridgeMessage({ type: 'SHADOW_CSS', css: shadowCSS });
+        }
+    });
+}
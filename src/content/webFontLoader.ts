@@ -0,0 +1,155 @@
+import { CodeRange, parseUnicodeRange } from '../utils/fontStack';
+
+// 웹 폰트를 FontFace API로 문서에 등록
+// <style> 안의 @font-face는 페이지의 font-src CSP에 막히므로(data: URL, 외부 호스트),
+// 폰트 파일을 콘텐츠 스크립트에서 직접 읽어 ArrayBuffer로 등록함
+// (외부 폰트는 원래도 CORS 허용이 필요하므로 같은 조건으로 fetch 가능)
+
+interface ParsedFontFace {
+    family: string;
+    url: string;
+    descriptors: FontFaceDescriptors;
+    ranges: CodeRange[] | null;    // unicode-range가 없으면 null
+}
+
+const FONT_FACE_DESCRIPTORS: [string, 'style' | 'weight' | 'stretch' | 'unicodeRange' | 'featureSettings'][] = [
+    ['font-style', 'style'],
+    ['font-weight', 'weight'],
+    ['font-stretch', 'stretch'],
+    ['unicode-range', 'unicodeRange'],
+    ['font-feature-settings', 'featureSettings'],
+];
+
+// 등록할 블록 / 등록한 FontFace / 불러오는 중인 블록
+let requestedBlocks = new Set<string>();
+const loadedFaces = new Map<string, FontFace>();
+const pendingBlocks = new Set<string>();
+
+// 같은 파일을 여러 블록(원래 폰트, 문자 체계 별칭)이 쓰므로 한 번만 읽음
+const fontDataCache = new Map<string, Promise<ArrayBuffer>>();
+
+function parseFontFace(block: string): ParsedFontFace | null {
+    const familyMatch = block.match(/font-family\s*:\s*(["']?)((?:\\.|[^;"'}\\])+)\1/i);
+    const urlMatch = block.match(/url\(\s*(["']?)([^"')]+)\1\s*\)/i);
+    if (!familyMatch || !urlMatch) return null;
+
+    // 나머지 속성은 url()을 지운 뒤에 찾음 (data URL 안의 문자와 섞이지 않도록)
+    const declarations = block.replace(/url\([^)]*\)/gi, '');
+    const descriptors: FontFaceDescriptors = {};
+    for (const [property, key] of FONT_FACE_DESCRIPTORS) {
+        const match = declarations.match(new RegExp(`${property}\\s*:\\s*([^;}]+)`, 'i'));
+        if (match) descriptors[key] = match[1].trim();
+    }
+
+    return {
+        family: familyMatch[2].replace(/\\(.)/g, '$1').trim(),
+        url: urlMatch[2],
+        descriptors,
+        ranges: descriptors.unicodeRange ? parseUnicodeRange(descriptors.unicodeRange) : null,
+    };
+}
+
+async function readFontData(url: string): Promise<ArrayBuffer> {
+    if (url.startsWith('data:')) {
+        const comma = url.indexOf(',');
+        const data = url.slice(comma + 1);
+        const binary = url.slice(0, comma).endsWith(';base64') ? atob(data) : decodeURIComponent(data);
+        return Uint8Array.from(binary, char => char.charCodeAt(0)).buffer;
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+    }
+    return response.arrayBuffer();
+}
+
+function getFontData(url: string): Promise<ArrayBuffer> {
+    let data = fontDataCache.get(url);
+    if (!data) {
+        data = readFontData(url);
+        fontDataCache.set(url, data);
+        // 실패하면 다음에 다시 시도
+        data.catch(() => fontDataCache.delete(url));
+    }
+    return data;
+}
+
+// 페이지에 있는 문자 (unicode-range로 나뉜 폰트는 쓰이는 범위만 불러옴)
+// 브라우저는 @font-face의 범위별 파일을 필요할 때만 받지만 FontFace(ArrayBuffer)는 만들 때 이미 받아야 하므로
+// 한글/한자처럼 수십 개의 파일로 나뉜 폰트를 모두 받지 않도록 문서의 문자로 거름
+function collectPageCodePoints(): number[] {
+    const codePoints = new Set<number>();
+    for (const char of document.documentElement?.textContent || '') {
+        codePoints.add(char.codePointAt(0)!);
+    }
+    return [...codePoints].sort((a, b) => a - b);
+}
+
+function hasCodePointInRanges(codePoints: number[], ranges: CodeRange[]): boolean {
+    return ranges.some(([start, end]) => {
+        // start 이상인 첫 번째 문자 (이진 탐색)
+        let low = 0;
+        let high = codePoints.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (codePoints[mid] < start) low = mid + 1;
+            else high = mid;
+        }
+        return low < codePoints.length && codePoints[low] <= end;
+    });
+}
+
+async function loadFontFace(block: string, face: ParsedFontFace): Promise<void> {
+    pendingBlocks.add(block);
+    try {
+        const fontFace = new FontFace(face.family, await getFontData(face.url), face.descriptors);
+        await fontFace.load();
+
+        // 불러오는 동안 설정이 바뀌었으면 등록하지 않음
+        if (requestedBlocks.has(block)) {
+            document.fonts.add(fontFace);
+            loadedFaces.set(block, fontFace);
+        }
+    } catch (error) {
+        console.warn('[Readable] Failed to load web font:', face.family, error);
+    } finally {
+        pendingBlocks.delete(block);
+    }
+}
+
+// 아직 등록하지 않은 블록 중 페이지에서 쓰는 것만 불러오기
+function loadRequestedFaces(): void {
+    let codePoints: number[] | null = null;
+
+    for (const block of requestedBlocks) {
+        if (loadedFaces.has(block) || pendingBlocks.has(block)) continue;
+
+        const face = parseFontFace(block);
+        if (!face) continue;
+
+        if (face.ranges) {
+            codePoints ??= collectPageCodePoints();
+            if (!hasCodePointInRanges(codePoints, face.ranges)) continue;
+        }
+        loadFontFace(block, face);
+    }
+}
+
+// 웹 폰트 @font-face 블록 적용 (빈 배열이면 모두 해제)
+export function setWebFontFaces(blocks: string[]): void {
+    requestedBlocks = new Set(blocks);
+
+    for (const [block, fontFace] of loadedFaces) {
+        if (!requestedBlocks.has(block)) {
+            document.fonts.delete(fontFace);
+            loadedFaces.delete(block);
+        }
+    }
+
+    loadRequestedFaces();
+}
+
+// document_start에는 본문이 없으므로 문서를 다 읽은 뒤 필요한 범위를 다시 확인
+document.addEventListener('DOMContentLoaded', loadRequestedFaces);
+window.addEventListener('load', loadRequestedFaces);
@@ -1,15 +1,52 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
     getStorage,
     addFavoriteFont,
     removeFavoriteFont,
-    removeSite,
-    setSiteSettings,
+    createDefaultSiteSettings,
+    createDefaultTypography,
+    copyTypography,
+    setGlobalSettings,
+    setDefaultExclusions,
+    addGlobalBlocklistEntry,
+    removeGlobalBlocklistEntry,
     addPreset,
     removePreset,
-    updatePreset
+    updatePreset,
+    getStorageUsage,
+    describeStorageKey,
+    isSettingsChange,
+    getWebFonts,
+    addWebFonts,
+    removeWebFont,
+    StorageUsage
 } from '../utils/storage';
-import { UserStorage, StylePreset, SiteStyles, DEFAULT_SITE_STYLES } from '../types/storage';
+import { parseSiteRule } from '../utils/siteMatcher';
+import {
+    createWebFontFromFile,
+    createWebFontsFromCSS,
+    createWebFontsFromURL,
+    guessFamilyFromFileName,
+    FONT_FILE_ACCEPT
+} from '../utils/webFonts';
+import { encodePresetCode, createPresetLink, PRESET_LINK_HASH } from '../utils/presetShare';
+import { findLinkedSites } from '../utils/presetLink';
+import {
+    UserStorage,
+    StylePreset,
+    SiteSettings,
+    TypographySettings,
+    WebFont,
+    DEFAULT_STORAGE,
+    DEFAULT_EXCLUSIONS
+} from '../types/storage';
+import TypographyEditor from '../components/TypographyEditor';
+import SelectorListEditor from '../components/SelectorListEditor';
+import ConfigTransferSection from './ConfigTransferSection';
+import ShortcutsSection from './ShortcutsSection';
+import HistorySection from './HistorySection';
+import PresetImportPanel from './PresetImportPanel';
+import SiteManagerSection from './SiteManagerSection';
 
 // Local Font Access API 타입
 interface FontData {
@@ -25,12 +62,12 @@ declare global {
     }
 }
 
+// 동기화 저장 공간 경고 기준
+const USAGE_WARNING_RATIO = 0.8;
+
 function App() {
-    const [storage, setStorageState] = useState<UserStorage>({
-        favoriteFonts: [],
-        siteSettings: {},
-        presets: [],
-    });
+    const [storage, setStorageState] = useState<UserStorage>({ ...DEFAULT_STORAGE });
+    const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
 
     // 폰트 관련 상태
     const [systemFonts, setSystemFonts] = useState<string[]>([]);
@@ -39,28 +76,65 @@ function App() {
     const [useManualInput, setUseManualInput] = useState(false);
     const [fontAccessStatus, setFontAccessStatus] = useState<'loading' | 'granted' | 'denied' | 'unsupported'>('loading');
 
+    // 웹 폰트 관련 상태
+    const [webFonts, setWebFonts] = useState<WebFont[]>([]);
+    const [fontFile, setFontFile] = useState<File | null>(null);
+    const [fontFileFamily, setFontFileFamily] = useState('');
+    const [webFontInput, setWebFontInput] = useState('');
+    const [isImportingFont, setIsImportingFont] = useState(false);
+
     // 프리셋 관련 상태
     const [presetName, setPresetName] = useState('');
-    const [presetStyles, setPresetStyles] = useState<SiteStyles>({ ...DEFAULT_SITE_STYLES });
-    const [presetFont, setPresetFont] = useState('');
+    const [presetValues, setPresetValues] = useState<TypographySettings>(createDefaultTypography(''));
     const [editingPreset, setEditingPreset] = useState<StylePreset | null>(null);
+    // 공유 링크로 열렸을 때 가져올 프리셋 코드
+    const [sharedPresetCode, setSharedPresetCode] = useState('');
+
+    // 전역 설정 관련 상태
+    const [blocklistInput, setBlocklistInput] = useState('');
 
     const [message, setMessage] = useState('');
 
+    // 마지막으로 저장을 요청한 전역 설정 (다음 저장의 충돌 검사 기준)
+    const savedGlobalRef = useRef<SiteSettings | null>(null);
+    // 응답을 기다리는 저장 요청 수
+    const pendingSavesRef = useRef(0);
+
     useEffect(() => {
         loadStorage();
         loadSystemFonts();
+        loadSharedPresetCode();
+
+        // 팝업이나 다른 창에서 설정이 바뀌면 다시 불러오기 (저장 중인 변경은 충돌 검사로 처리)
+        const listener = (changes: { [key: string]: chrome.storage.StorageChange }, namespace: string) => {
+            if (isSettingsChange(changes, namespace) && pendingSavesRef.current === 0) {
+                loadStorage();
+            }
+        };
+        chrome.storage.onChanged.addListener(listener);
+        return () => chrome.storage.onChanged.removeListener(listener);
     }, []);
 
     useEffect(() => {
-        if (storage.favoriteFonts.length > 0 && !presetFont) {
-            setPresetFont(storage.favoriteFonts[0]);
+        if (storage.favoriteFonts.length > 0 && !presetValues.fontFamily) {
+            setPresetValues({ ...presetValues, fontFamily: storage.favoriteFonts[0] });
         }
     }, [storage.favoriteFonts]);
 
     async function loadStorage() {
         const data = await getStorage();
+        savedGlobalRef.current = data.globalSettings;
         setStorageState(data);
+        setWebFonts(await getWebFonts());
+        setStorageUsage(await getStorageUsage());
+    }
+
+    // 공유 링크(#import-preset=...)로 열린 경우 코드를 꺼내고 주소에서는 지움
+    function loadSharedPresetCode() {
+        if (location.hash.startsWith(PRESET_LINK_HASH)) {
+            setSharedPresetCode(location.hash.slice(PRESET_LINK_HASH.length));
+            history.replaceState(null, '', location.pathname);
+        }
     }
 
     async function loadSystemFonts() {
@@ -111,30 +185,115 @@ function App() {
         }
     }
 
+    function handleFontFileSelect(file: File | null) {
+        setFontFile(file);
+        setFontFileFamily(file ? guessFamilyFromFileName(file.name) : '');
+    }
+
+    async function handleUploadFontFile() {
+        const family = fontFileFamily.trim();
+        if (!fontFile || !family) {
+            showMessage('폰트 파일과 이름을 입력해주세요.', 'error');
+            return;
+        }
+
+        setIsImportingFont(true);
+        try {
+            const webFont = await createWebFontFromFile(fontFile, family);
+            await addWebFonts([webFont]);
+            showMessage(`"${family}" 웹 폰트가 추가되었습니다.`);
+            handleFontFileSelect(null);
+            loadStorage();
+        } catch (error) {
+            showMessage(error instanceof Error ? error.message : '폰트를 추가하지 못했습니다.', 'error');
+        } finally {
+            setIsImportingFont(false);
+        }
+    }
+
+    // 스타일시트 URL 또는 @font-face 블록 가져오기
+    async function handleImportWebFont() {
+        const input = webFontInput.trim();
+        if (!input) return;
+
+        setIsImportingFont(true);
+        try {
+            const fonts = /^https?:\/\//.test(input)
+                ? await createWebFontsFromURL(input)
+                : createWebFontsFromCSS(input);
+            await addWebFonts(fonts);
+            showMessage(`${fonts.map(f => `"${f.family}"`).join(', ')} 웹 폰트가 추가되었습니다.`);
+            setWebFontInput('');
+            loadStorage();
+        } catch (error) {
+            showMessage(error instanceof Error ? error.message : '폰트를 가져오지 못했습니다.', 'error');
+        } finally {
+            setIsImportingFont(false);
+        }
+    }
+
+    async function handleRemoveWebFont(id: string) {
+        await removeWebFont(id);
+        loadStorage();
+    }
+
     async function handleRemoveFont(font: string) {
         await removeFavoriteFont(font);
         loadStorage();
     }
 
-    async function handleRemoveSite(domain: string) {
-        await removeSite(domain);
+    async function handleGlobalSettingsChange(newSettings: SiteSettings | null) {
+        const expected = savedGlobalRef.current;
+        savedGlobalRef.current = newSettings;
+        setStorageState({ ...storage, globalSettings: newSettings });
+
+        pendingSavesRef.current++;
+        const saved = await setGlobalSettings(newSettings, expected);
+        pendingSavesRef.current--;
+
+        if (!saved) {
+            showMessage('다른 창에서 전역 설정이 변경되어 최신 설정을 불러왔습니다.', 'error');
+            loadStorage();
+        }
+    }
+
+    async function handleDefaultExclusionsChange(selectors: string[]) {
+        await setDefaultExclusions(selectors);
+        setStorageState({ ...storage, defaultExclusions: selectors });
+    }
+
+    async function handleAddBlocklistEntry() {
+        const pattern = blocklistInput.trim();
+
+        if (!parseSiteRule(pattern)) {
+            showMessage('올바르지 않은 규칙입니다.', 'error');
+            return;
+        }
+
+        const success = await addGlobalBlocklistEntry(pattern);
+        if (success) {
+            setBlocklistInput('');
+            loadStorage();
+        } else {
+            showMessage('이미 제외된 사이트입니다.', 'error');
+        }
+    }
+
+    async function handleRemoveBlocklistEntry(pattern: string) {
+        await removeGlobalBlocklistEntry(pattern);
         loadStorage();
     }
 
     function handleEditPreset(preset: StylePreset) {
         setEditingPreset(preset);
         setPresetName(preset.name);
-        setPresetFont(preset.fontFamily);
-        setPresetStyles({ ...preset.styles });
+        setPresetValues(copyTypography(preset));
     }
 
     function handleCancelEdit() {
         setEditingPreset(null);
         setPresetName('');
-        setPresetStyles({ ...DEFAULT_SITE_STYLES });
-        if (storage.favoriteFonts.length > 0) {
-            setPresetFont(storage.favoriteFonts[0]);
-        }
+        setPresetValues(createDefaultTypography(storage.favoriteFonts[0] || ''));
     }
 
     async function handleSavePreset() {
@@ -143,33 +302,57 @@ function App() {
             return;
         }
 
-        if (!presetFont) {
+        if (!presetValues.fontFamily) {
             showMessage('폰트를 선택해주세요.', 'error');
             return;
         }
 
         if (editingPreset) {
-            // 기존 프리셋 수정
-            await updatePreset(editingPreset.id, presetName, presetFont, presetStyles);
-            showMessage('프리셋이 수정되었습니다.');
+            // 기존 프리셋 수정 (편집 중에 다른 곳에서 바뀌었으면 저장하지 않음)
+            if (!await updatePreset(editingPreset.id, presetName, presetValues, editingPreset)) {
+                const latest = (await getStorage()).presets.find(p => p.id === editingPreset.id) || null;
+                setEditingPreset(latest);
+                showMessage(latest
+                    ? '편집 중에 다른 창에서 프리셋이 변경되었습니다. 다시 저장하면 덮어씁니다.'
+                    : '편집 중에 다른 창에서 프리셋이 삭제되었습니다.', 'error');
+                loadStorage();
+                return;
+            }
+            const linkedCount = findLinkedSites(storage, editingPreset.id).length;
+            showMessage(linkedCount > 0
+                ? `프리셋이 수정되었습니다. 연결된 사이트 ${linkedCount}곳에도 적용됩니다.`
+                : '프리셋이 수정되었습니다.');
             setEditingPreset(null);
         } else {
             // 새 프리셋 추가
-            await addPreset(presetName, presetFont, presetStyles);
+            await addPreset(presetName, presetValues);
             showMessage('프리셋이 저장되었습니다.');
         }
 
         setPresetName('');
-        setPresetStyles({ ...DEFAULT_SITE_STYLES });
+        setPresetValues(createDefaultTypography(presetValues.fontFamily));
         loadStorage();
     }
 
+    // 연결된 사이트는 현재 스타일을 그대로 유지하고 연결만 해제됨
     async function handleRemovePreset(presetId: string) {
+        const linkedCount = findLinkedSites(storage, presetId).length;
         await removePreset(presetId);
         if (editingPreset?.id === presetId) {
             handleCancelEdit();
         }
         loadStorage();
+        showMessage(linkedCount > 0
+            ? `프리셋을 삭제했습니다. 연결된 사이트 ${linkedCount}곳은 지금 스타일을 그대로 유지하고 연결만 해제됩니다. 휴지통에서 복원할 수 있습니다.`
+            : '프리셋을 삭제했습니다. 휴지통에서 복원할 수 있습니다.');
+    }
+
+    async function handleCopyPresetCode(preset: StylePreset, asLink: boolean) {
+        const code = await encodePresetCode(preset);
+        await navigator.clipboard.writeText(asLink ? createPresetLink(code) : code);
+        showMessage(asLink
+            ? `"${preset.name}" 공유 링크를 복사했습니다. Readable이 설치된 브라우저에서 열 수 있습니다.`
+            : `"${preset.name}" 공유 코드를 복사했습니다.`);
     }
 
     function showMessage(msg: string, _type: 'success' | 'error' = 'success') {
@@ -177,7 +360,13 @@ function App() {
         setTimeout(() => setMessage(''), 3000);
     }
 
-    const siteList = Object.entries(storage.siteSettings);
+    const usageRatio = storageUsage
+        ? Math.max(
+            storageUsage.bytesInUse / storageUsage.quotaBytes,
+            storageUsage.itemCount / storageUsage.maxItems,
+            storageUsage.largestItemBytes / storageUsage.quotaBytesPerItem
+        )
+        : 0;
 
     return (
         <div className="min-h-screen p-8" style={{ backgroundColor: 'var(--bg-primary)' }}>
@@ -192,9 +381,35 @@ function App() {
                     </p>
                 </header>
 
+                {/* 웹 폰트 미리보기용 @font-face */}
+                <style>{webFonts.map(font => font.cssText).join('\n')}</style>
+
                 {/* 메시지 */}
                 {message && <div className="message mb-4">{message}</div>}
 
+                {/* 동기화 저장 공간 경고 (80% 이상 사용했거나 일부가 이 기기에만 저장된 경우) */}
+                {storageUsage && (usageRatio >= USAGE_WARNING_RATIO || storageUsage.overflowKeys.length > 0) && (
+                    <div className="mb-4 p-3 rounded-lg text-sm" style={{
+                        backgroundColor: 'rgba(255, 200, 100, 0.1)',
+                        border: '1px solid rgba(255, 200, 100, 0.3)',
+                        color: '#f0c040'
+                    }}>
+                        <div>
+                            동기화 저장 공간을 {(usageRatio * 100).toFixed(0)}% 사용 중입니다
+                            ({(storageUsage.bytesInUse / 1024).toFixed(1)} / {storageUsage.quotaBytes / 1024}KB,
+                            항목 {storageUsage.itemCount} / {storageUsage.maxItems}개).
+                        </div>
+                        {storageUsage.overflowKeys.length > 0 && (
+                            <div className="mt-1">
+                                용량이 부족해 다음 설정은 이 기기에만 저장되었습니다:{' '}
+                                <span className="font-mono">
+                                    {storageUsage.overflowKeys.map(describeStorageKey).join(', ')}
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* 폰트 등록 섹션 */}
                 <section className="card mb-6">
                     <h2 className="text-lg font-medium mb-4">폰트 등록</h2>
@@ -267,6 +482,79 @@ function App() {
                         </button>
                     </div>
 
+                    {/* 웹 폰트 (설치되지 않은 폰트) */}
+                    <div className="mt-4 p-4 rounded-lg" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+                        <div className="text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+                            웹 폰트 · 설치되지 않은 PC에서도 사용할 수 있습니다.
+                        </div>
+
+                        {/* 파일 업로드 */}
+                        <div className="flex gap-3 mb-3">
+                            <input
+                                type="file"
+                                accept={FONT_FILE_ACCEPT}
+                                onChange={(e) => handleFontFileSelect(e.target.files?.[0] || null)}
+                                className="input-field flex-1 text-sm"
+                            />
+                            {fontFile && (
+                                <input
+                                    type="text"
+                                    value={fontFileFamily}
+                                    onChange={(e) => setFontFileFamily(e.target.value)}
+                                    placeholder="폰트 이름"
+                                    className="input-field flex-1"
+                                />
+                            )}
+                            <button
+                                onClick={handleUploadFontFile}
+                                className="btn-primary"
+                                disabled={!fontFile || isImportingFont}
+                            >
+                                업로드
+                            </button>
+                        </div>
+
+                        {/* URL / @font-face 가져오기 */}
+                        <div className="flex gap-3">
+                            <textarea
+                                value={webFontInput}
+                                onChange={(e) => setWebFontInput(e.target.value)}
+                                placeholder={'스타일시트 URL 또는 @font-face 블록\n예: https://fonts.googleapis.com/css2?family=Noto+Sans+KR'}
+                                rows={2}
+                                className="input-field flex-1 font-mono text-sm"
+                            />
+                            <button
+                                onClick={handleImportWebFont}
+                                className="btn-primary"
+                                disabled={!webFontInput.trim() || isImportingFont}
+                            >
+                                가져오기
+                            </button>
+                        </div>
+
+                        {webFonts.length > 0 && (
+                            <div className="space-y-1 mt-3">
+                                {webFonts.map((font) => (
+                                    <div key={font.id} className="flex items-center justify-between text-sm">
+                                        <div className="min-w-0 truncate">
+                                            <span style={{ fontFamily: font.family }}>{font.family}</span>
+                                            <span className="text-xs ml-2" style={{ color: 'var(--text-secondary)' }}>
+                                                {font.label} · {(font.size / 1024).toFixed(0)}KB
+                                            </span>
+                                        </div>
+                                        <button
+                                            onClick={() => handleRemoveWebFont(font.id)}
+                                            className="text-xs px-2 py-1 rounded hover:bg-white/5"
+                                            style={{ color: 'var(--text-secondary)' }}
+                                        >
+                                            삭제
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
                     {/* 등록된 폰트 목록 */}
                     {storage.favoriteFonts.length > 0 && (
                         <div className="mt-4">
@@ -285,183 +573,180 @@ function App() {
                     )}
                 </section>
 
-                {/* 프리셋 섹션 */}
+                {/* 전역 설정 섹션 */}
                 <section className="card mb-6">
-                    <h2 className="text-lg font-medium mb-4">
-                        스타일 프리셋
-                        {editingPreset && (
-                            <span className="ml-2 text-sm font-normal" style={{ color: 'var(--accent)' }}>
-                                (수정 중: {editingPreset.name})
-                            </span>
+                    <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-lg font-medium">전역 설정</h2>
+                        {storage.globalSettings && (
+                            <label className="toggle-switch">
+                                <input
+                                    type="checkbox"
+                                    checked={storage.globalSettings.isActive}
+                                    onChange={() => handleGlobalSettingsChange({
+                                        ...storage.globalSettings!,
+                                        isActive: !storage.globalSettings!.isActive
+                                    })}
+                                />
+                                <span className="toggle-slider"></span>
+                            </label>
                         )}
-                    </h2>
+                    </div>
+                    <p className="text-xs mb-4" style={{ color: 'var(--text-secondary)' }}>
+                        등록되지 않은 모든 사이트에 적용됩니다. 등록된 사이트의 설정이 항상 우선합니다.
+                    </p>
 
                     {storage.favoriteFonts.length === 0 ? (
                         <p className="text-sm text-center py-4" style={{ color: 'var(--text-secondary)' }}>
                             먼저 폰트를 등록해주세요.
                         </p>
+                    ) : !storage.globalSettings ? (
+                        <button
+                            onClick={() => handleGlobalSettingsChange(createDefaultSiteSettings(storage.favoriteFonts[0]))}
+                            className="btn-secondary w-full"
+                        >
+                            전역 설정 사용하기
+                        </button>
                     ) : (
                         <>
-                            {/* 프리셋 에디터 */}
                             <div className="p-4 rounded-lg mb-4" style={{ backgroundColor: 'var(--bg-secondary)' }}>
-                                <div className="grid grid-cols-2 gap-4 mb-4">
-                                    <div>
+                                {storage.presets.length > 0 && (
+                                    <div className="mb-4">
                                         <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
-                                            프리셋 이름
-                                        </label>
-                                        <input
-                                            type="text"
-                                            value={presetName}
-                                            onChange={(e) => setPresetName(e.target.value)}
-                                            placeholder="예: 네이버 읽기용"
-                                            className="input-field"
-                                        />
-                                    </div>
-                                    <div>
-                                        <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
-                                            폰트
+                                            프리셋 적용
                                         </label>
                                         <select
-                                            value={presetFont}
-                                            onChange={(e) => setPresetFont(e.target.value)}
                                             className="input-field"
+                                            value=""
+                                            onChange={(e) => {
+                                                const preset = storage.presets.find(p => p.id === e.target.value);
+                                                if (preset) {
+                                                    handleGlobalSettingsChange({
+                                                        ...storage.globalSettings!,
+                                                        ...copyTypography(preset)
+                                                    });
+                                                }
+                                            }}
                                         >
-                                            {storage.favoriteFonts.map((font) => (
-                                                <option key={font} value={font}>{font}</option>
+                                            <option value="" disabled>프리셋 선택...</option>
+                                            {storage.presets.map((preset) => (
+                                                <option key={preset.id} value={preset.id}>{preset.name}</option>
                                             ))}
                                         </select>
                                     </div>
-                                </div>
-
-                                {/* 스타일 슬라이더들 */}
-                                <div className="space-y-4">
-                                    {/* 폰트 크기 비율 */}
-                                    <div>
-                                        <div className="flex justify-between text-xs mb-1.5">
-                                            <span style={{ color: 'var(--text-secondary)' }}>폰트 크기</span>
-                                            <span>{(presetStyles.fontSizeScale * 100).toFixed(0)}%</span>
-                                        </div>
-                                        <input
-                                            type="range"
-                                            min="0.8"
-                                            max="1.6"
-                                            step="0.05"
-                                            value={presetStyles.fontSizeScale}
-                                            onChange={(e) => setPresetStyles({
-                                                ...presetStyles,
-                                                fontSizeScale: parseFloat(e.target.value)
-                                            })}
-                                            className="slider-track w-full"
-                                        />
-                                    </div>
+                                )}
+
+                                <TypographyEditor
+                                    fonts={storage.favoriteFonts}
+                                    value={storage.globalSettings}
+                                    onChange={(typography) => handleGlobalSettingsChange({
+                                        ...storage.globalSettings!,
+                                        ...typography
+                                    })}
+                                />
+
+                                <button
+                                    onClick={() => handleGlobalSettingsChange(null)}
+                                    className="text-sm mt-4"
+                                    style={{ color: 'var(--text-secondary)' }}
+                                >
+                                    전역 설정 삭제
+                                </button>
+                            </div>
 
-                                    {/* 행간 */}
-                                    <div>
-                                        <div className="flex justify-between text-xs mb-1.5">
-                                            <span style={{ color: 'var(--text-secondary)' }}>행간</span>
-                                            <span>{presetStyles.lineHeight}</span>
-                                        </div>
-                                        <input
-                                            type="range"
-                                            min="1"
-                                            max="3"
-                                            step="0.1"
-                                            value={presetStyles.lineHeight}
-                                            onChange={(e) => setPresetStyles({
-                                                ...presetStyles,
-                                                lineHeight: parseFloat(e.target.value)
-                                            })}
-                                            className="slider-track w-full"
-                                        />
-                                    </div>
+                            {/* 제외 목록 */}
+                            <div className="text-xs mb-2" style={{ color: 'var(--text-secondary)' }}>
+                                제외할 사이트 ({storage.globalBlocklist.length})
+                            </div>
+                            <div className="flex gap-3">
+                                <input
+                                    type="text"
+                                    value={blocklistInput}
+                                    onChange={(e) => setBlocklistInput(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && handleAddBlocklistEntry()}
+                                    placeholder="예: mail.google.com, *.bank.com"
+                                    className="input-field flex-1 font-mono"
+                                />
+                                <button onClick={handleAddBlocklistEntry} className="btn-primary">
+                                    추가
+                                </button>
+                            </div>
+                            {storage.globalBlocklist.length > 0 && (
+                                <div className="flex flex-wrap gap-2 mt-3">
+                                    {storage.globalBlocklist.map((pattern) => (
+                                        <span key={pattern} className="tag font-mono">
+                                            {pattern}
+                                            <button onClick={() => handleRemoveBlocklistEntry(pattern)} className="tag-remove">✕</button>
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </section>
 
-                                    {/* 자간 */}
-                                    <div>
-                                        <div className="flex justify-between text-xs mb-1.5">
-                                            <span style={{ color: 'var(--text-secondary)' }}>자간</span>
-                                            <span>{presetStyles.letterSpacing}</span>
-                                        </div>
-                                        <input
-                                            type="range"
-                                            min="-2"
-                                            max="10"
-                                            step="0.5"
-                                            value={parseFloat(presetStyles.letterSpacing)}
-                                            onChange={(e) => setPresetStyles({
-                                                ...presetStyles,
-                                                letterSpacing: `${e.target.value}px`
-                                            })}
-                                            className="slider-track w-full"
-                                        />
-                                    </div>
+                {/* 제외 선택자 섹션 */}
+                <section className="card mb-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-lg font-medium">제외 선택자</h2>
+                        <button
+                            onClick={() => handleDefaultExclusionsChange([...DEFAULT_EXCLUSIONS])}
+                            className="text-sm px-3 py-1 rounded hover:bg-white/5"
+                            style={{ color: 'var(--text-secondary)' }}
+                        >
+                            기본값으로 복원
+                        </button>
+                    </div>
+                    <p className="text-xs mb-4" style={{ color: 'var(--text-secondary)' }}>
+                        모든 사이트에서 폰트를 바꾸지 않을 요소입니다. 아이콘 폰트가 깨지는 경우 해당 요소의 선택자를 추가하세요.
+                        사이트별 제외/포함 선택자는 팝업에서 설정할 수 있습니다.
+                    </p>
+                    <SelectorListEditor
+                        label="공통 제외 선택자"
+                        placeholder='예: .octicon, [class^="ri-"], [data-icon]'
+                        selectors={storage.defaultExclusions}
+                        onChange={handleDefaultExclusionsChange}
+                    />
+                </section>
 
-                                    {/* 단어 간격 */}
-                                    <div>
-                                        <div className="flex justify-between text-xs mb-1.5">
-                                            <span style={{ color: 'var(--text-secondary)' }}>단어 간격</span>
-                                            <span>{presetStyles.wordSpacing}</span>
-                                        </div>
-                                        <input
-                                            type="range"
-                                            min="0"
-                                            max="20"
-                                            step="1"
-                                            value={parseFloat(presetStyles.wordSpacing)}
-                                            onChange={(e) => setPresetStyles({
-                                                ...presetStyles,
-                                                wordSpacing: `${e.target.value}px`
-                                            })}
-                                            className="slider-track w-full"
-                                        />
-                                    </div>
+                {/* 프리셋 섹션 */}
+                <section className="card mb-6">
+                    <h2 className="text-lg font-medium mb-4">
+                        스타일 프리셋
+                        {editingPreset && (
+                            <span className="ml-2 text-sm font-normal" style={{ color: 'var(--accent)' }}>
+                                (수정 중: {editingPreset.name})
+                            </span>
+                        )}
+                    </h2>
 
-                                    {/* 굵기 */}
-                                    <div>
-                                        <div className="flex justify-between items-center text-xs mb-1.5">
-                                            <span style={{ color: 'var(--text-secondary)' }}>굵기 조절</span>
-                                            <label className="toggle-switch" style={{ transform: 'scale(0.8)' }}>
-                                                <input
-                                                    type="checkbox"
-                                                    checked={presetStyles.fontWeight !== 'inherit'}
-                                                    onChange={(e) => {
-                                                        if (e.target.checked) {
-                                                            setPresetStyles({ ...presetStyles, fontWeight: '400' });
-                                                        } else {
-                                                            setPresetStyles({ ...presetStyles, fontWeight: 'inherit' });
-                                                        }
-                                                    }}
-                                                />
-                                                <span className="toggle-slider"></span>
-                                            </label>
-                                        </div>
-                                        {presetStyles.fontWeight !== 'inherit' && (
-                                            <>
-                                                <div className="flex justify-between text-xs mb-1">
-                                                    <span></span>
-                                                    <span>{presetStyles.fontWeight}</span>
-                                                </div>
-                                                <input
-                                                    type="range"
-                                                    min="100"
-                                                    max="900"
-                                                    step="100"
-                                                    value={parseInt(presetStyles.fontWeight) || 400}
-                                                    onChange={(e) => setPresetStyles({
-                                                        ...presetStyles,
-                                                        fontWeight: e.target.value
-                                                    })}
-                                                    className="slider-track w-full"
-                                                />
-                                            </>
-                                        )}
-                                        {presetStyles.fontWeight === 'inherit' && (
-                                            <div className="text-xs py-1" style={{ color: 'var(--text-secondary)' }}>
-                                                원본 유지
-                                            </div>
-                                        )}
-                                    </div>
+                    {storage.favoriteFonts.length === 0 ? (
+                        <p className="text-sm text-center py-4" style={{ color: 'var(--text-secondary)' }}>
+                            먼저 폰트를 등록해주세요.
+                        </p>
+                    ) : (
+                        <>
+                            {/* 프리셋 에디터 */}
+                            <div className="p-4 rounded-lg mb-4" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+                                <div className="mb-4">
+                                    <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                                        프리셋 이름
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={presetName}
+                                        onChange={(e) => setPresetName(e.target.value)}
+                                        placeholder="예: 네이버 읽기용"
+                                        className="input-field"
+                                    />
                                 </div>
 
+                                {/* 본문 / 제목 / 코드 */}
+                                <TypographyEditor
+                                    fonts={storage.favoriteFonts}
+                                    value={presetValues}
+                                    onChange={setPresetValues}
+                                />
+
                                 <div className="flex gap-2 mt-4">
                                     <button
                                         onClick={handleSavePreset}
@@ -501,9 +786,28 @@ function App() {
                                                     <div className="font-medium text-sm">{preset.name}</div>
                                                     <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>
                                                         {preset.fontFamily} · 크기 {((preset.styles.fontSizeScale || 1) * 100).toFixed(0)}% · 행간 {preset.styles.lineHeight}
+                                                        {findLinkedSites(storage, preset.id).length > 0 && (
+                                                            <span style={{ color: 'var(--accent)' }}> · 사이트 {findLinkedSites(storage, preset.id).length}곳 연결됨</span>
+                                                        )}
                                                     </div>
                                                 </div>
                                                 <div className="flex gap-2">
+                                                    <button
+                                                        onClick={() => handleCopyPresetCode(preset, false)}
+                                                        className="text-sm px-3 py-1 rounded hover:bg-white/5"
+                                                        style={{ color: 'var(--text-secondary)' }}
+                                                        title="공유 코드 복사"
+                                                    >
+                                                        코드 복사
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleCopyPresetCode(preset, true)}
+                                                        className="text-sm px-3 py-1 rounded hover:bg-white/5"
+                                                        style={{ color: 'var(--text-secondary)' }}
+                                                        title="공유 링크 복사"
+                                                    >
+                                                        링크 복사
+                                                    </button>
                                                     <button
                                                         onClick={() => handleEditPreset(preset)}
                                                         className="text-sm px-3 py-1 rounded hover:bg-white/5"
@@ -526,69 +830,38 @@ function App() {
                             )}
                         </>
                     )}
+
+                    {/* 공유 코드로 가져오기 */}
+                    <PresetImportPanel
+                        favoriteFonts={storage.favoriteFonts}
+                        installedFonts={fontAccessStatus === 'granted'
+                            ? [...systemFonts, ...webFonts.map(font => font.family)]
+                            : null}
+                        initialCode={sharedPresetCode}
+                        onImported={loadStorage}
+                        showMessage={showMessage}
+                    />
                 </section>
 
-                {/* 등록된 사이트 섹션 */}
-                <section className="card">
-                    <h2 className="text-lg font-medium mb-4">등록된 사이트</h2>
+                {/* 변경 기록 섹션 */}
+                <HistorySection showMessage={showMessage} />
 
-                    {siteList.length === 0 ? (
-                        <p className="text-sm text-center py-6" style={{ color: 'var(--text-secondary)' }}>
-                            등록된 사이트가 없습니다.<br />
-                            웹사이트에서 팝업을 통해 등록하세요.
-                        </p>
-                    ) : (
-                        <div className="space-y-2">
-                            {siteList.map(([domain, settings]) => (
-                                <div
-                                    key={domain}
-                                    className="flex items-center gap-3 p-3 rounded-lg"
-                                    style={{ backgroundColor: 'var(--bg-secondary)' }}
-                                >
-                                    <div className="flex-1 min-w-0">
-                                        <div className="font-mono text-sm truncate">{domain}</div>
-                                        <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>
-                                            {settings.fontFamily} · {settings.isActive ? '활성' : '비활성'}
-                                        </div>
-                                    </div>
-                                    {storage.presets.length > 0 && (
-                                        <select
-                                            className="input-field text-sm py-1"
-                                            style={{ width: 'auto', minWidth: '100px' }}
-                                            defaultValue=""
-                                            onChange={async (e) => {
-                                                const preset = storage.presets.find(p => p.id === e.target.value);
-                                                if (preset) {
-                                                    await setSiteSettings(domain, {
-                                                        ...settings,
-                                                        fontFamily: preset.fontFamily,
-                                                        styles: { ...preset.styles }
-                                                    });
-                                                    loadStorage();
-                                                    showMessage(`"${preset.name}" 프리셋이 적용되었습니다.`);
-                                                }
-                                            }}
-                                        >
-                                            <option value="" disabled>프리셋...</option>
-                                            {storage.presets.map((preset) => (
-                                                <option key={preset.id} value={preset.id}>
-                                                    {preset.name}
-                                                </option>
-                                            ))}
-                                        </select>
-                                    )}
-                                    <button
-                                        onClick={() => handleRemoveSite(domain)}
-                                        className="text-sm px-3 py-1 rounded hover:bg-white/5"
-                                        style={{ color: 'var(--text-secondary)' }}
-                                    >
-                                        삭제
-                                    </button>
-                                </div>
-                            ))}
-                        </div>
-                    )}
-                </section>
+                {/* 단축키 섹션 */}
+                <ShortcutsSection />
+
+                {/* 백업 및 가져오기 섹션 */}
+                <ConfigTransferSection
+                    storage={storage}
+                    onImported={loadStorage}
+                    showMessage={showMessage}
+                />
+
+                {/* 등록된 사이트 섹션 */}
+                <SiteManagerSection
+                    storage={storage}
+                    onChanged={loadStorage}
+                    showMessage={showMessage}
+                />
             </div>
         </div>
     );
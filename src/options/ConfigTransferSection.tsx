@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { setStorage, getWebFonts, importWebFonts } from '../utils/storage';
+import {
+    createConfigExport,
+    parseConfigExport,
+    mergeConfig,
+    diffConfig,
+    downloadConfigExport,
+    ConfigExport,
+    ConfigDiffEntry,
+    MergeStrategy
+} from '../utils/configTransfer';
+import { UserStorage } from '../types/storage';
+
+interface ConfigTransferSectionProps {
+    storage: UserStorage;
+    onImported: () => void;
+    showMessage: (msg: string, type?: 'success' | 'error') => void;
+}
+
+const STRATEGY_LABELS: Record<MergeStrategy, string> = {
+    replace: '모두 교체',
+    keepMine: '합치기 (내 설정 유지)',
+    preferIncoming: '합치기 (가져온 설정 우선)',
+};
+
+const CHANGE_LABELS: Record<ConfigDiffEntry['change'], { label: string; color: string }> = {
+    added: { label: '추가', color: 'var(--accent)' },
+    changed: { label: '변경', color: '#f0c040' },
+    removed: { label: '삭제', color: '#e07070' },
+};
+
+function DiffList({ title, entries }: { title: string; entries: ConfigDiffEntry[] }) {
+    return (
+        <div>
+            <div className="text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                {title} ({entries.length})
+            </div>
+            {entries.length === 0 ? (
+                <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>변경 없음</div>
+            ) : (
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                    {entries.map((entry) => (
+                        <div key={entry.key} className="flex items-center gap-2 text-sm">
+                            <span className="text-xs w-8" style={{ color: CHANGE_LABELS[entry.change].color }}>
+                                {CHANGE_LABELS[entry.change].label}
+                            </span>
+                            <span className="font-mono truncate">{entry.label}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// 설정 백업(내보내기) 및 가져오기
+function ConfigTransferSection({ storage, onImported, showMessage }: ConfigTransferSectionProps) {
+    const [includeWebFonts, setIncludeWebFonts] = useState(false);
+    const [pendingImport, setPendingImport] = useState<ConfigExport | null>(null);
+    const [strategy, setStrategy] = useState<MergeStrategy>('keepMine');
+
+    async function handleExport() {
+        const webFonts = includeWebFonts ? await getWebFonts() : undefined;
+        downloadConfigExport(createConfigExport(storage, webFonts));
+    }
+
+    async function handleFileSelect(file: File | undefined) {
+        if (!file) return;
+
+        try {
+            setPendingImport(parseConfigExport(await file.text()));
+        } catch (error) {
+            showMessage(error instanceof Error ? error.message : '설정 파일을 읽을 수 없습니다.', 'error');
+        }
+    }
+
+    async function handleApplyImport() {
+        if (!pendingImport) return;
+
+        await setStorage(mergeConfig(storage, pendingImport.data, strategy));
+
+        // 파일에 웹 폰트가 없으면 현재 웹 폰트는 그대로 둠
+        if (pendingImport.webFonts) {
+            await importWebFonts(pendingImport.webFonts, strategy === 'replace');
+        }
+
+        setPendingImport(null);
+        showMessage('설정을 가져왔습니다.');
+        onImported();
+    }
+
+    const preview = pendingImport
+        ? diffConfig(storage, mergeConfig(storage, pendingImport.data, strategy))
+        : null;
+
+    return (
+        <section className="card mb-6">
+            <h2 className="text-lg font-medium mb-4">백업 및 가져오기</h2>
+
+            {/* 내보내기 */}
+            <div className="flex items-center gap-3 mb-4">
+                <button onClick={handleExport} className="btn-primary">
+                    JSON으로 내보내기
+                </button>
+                <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--text-secondary)' }}>
+                    <input
+                        type="checkbox"
+                        checked={includeWebFonts}
+                        onChange={(e) => setIncludeWebFonts(e.target.checked)}
+                    />
+                    웹 폰트 파일 포함
+                </label>
+            </div>
+
+            {/* 가져오기 */}
+            <input
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => {
+                    handleFileSelect(e.target.files?.[0]);
+                    e.target.value = '';
+                }}
+                className="input-field text-sm"
+            />
+
+            {pendingImport && preview && (
+                <div className="mt-4 p-4 rounded-lg" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+                    <div className="text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+                        {pendingImport.exportedAt && `${new Date(pendingImport.exportedAt).toLocaleString()}에 내보낸 설정 · `}
+                        적용 전 변경 사항을 확인하세요.
+                    </div>
+
+                    <div className="flex gap-1 mb-4 text-sm">
+                        {(Object.keys(STRATEGY_LABELS) as MergeStrategy[]).map((key) => (
+                            <button
+                                key={key}
+                                onClick={() => setStrategy(key)}
+                                className="px-3 py-1 rounded transition-colors"
+                                style={{
+                                    backgroundColor: strategy === key ? 'var(--accent-muted)' : 'transparent',
+                                    color: strategy === key ? 'var(--accent)' : 'var(--text-secondary)'
+                                }}
+                            >
+                                {STRATEGY_LABELS[key]}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4 mb-4">
+                        <DiffList title="사이트" entries={preview.sites} />
+                        <DiffList title="프리셋" entries={preview.presets} />
+                    </div>
+
+                    <div className="flex gap-2">
+                        <button onClick={handleApplyImport} className="btn-primary flex-1">
+                            가져오기 적용
+                        </button>
+                        <button onClick={() => setPendingImport(null)} className="btn-secondary">
+                            취소
+                        </button>
+                    </div>
+                </div>
+            )}
+        </section>
+    );
+}
+
+export default ConfigTransferSection;
@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import {
+    getSettingsHistory,
+    getTrash,
+    getSnapshots,
+    isHistoryChange,
+    restoreTrashItem,
+    createSnapshot,
+    restoreSnapshot,
+    removeSnapshot
+} from '../utils/storage';
+import { MAX_SNAPSHOTS } from '../utils/history';
+import { SettingsHistory, TrashItem, SettingsSnapshot } from '../types/storage';
+import UndoRedoButtons from '../components/UndoRedoButtons';
+
+interface HistorySectionProps {
+    showMessage: (msg: string, type?: 'success' | 'error') => void;
+}
+
+// 최근 변경 목록에 표시할 개수
+const VISIBLE_HISTORY_ENTRIES = 10;
+
+function describeTrashItem(item: TrashItem): string {
+    return item.kind === 'site' ? `사이트 · ${item.pattern}` : `프리셋 · ${item.preset.name}`;
+}
+
+// 변경 기록, 휴지통, 스냅샷 (이 기기에만 보관)
+function HistorySection({ showMessage }: HistorySectionProps) {
+    const [history, setHistory] = useState<SettingsHistory>({ undo: [], redo: [] });
+    const [trash, setTrash] = useState<TrashItem[]>([]);
+    const [snapshots, setSnapshots] = useState<SettingsSnapshot[]>([]);
+    const [snapshotName, setSnapshotName] = useState('');
+
+    useEffect(() => {
+        loadHistory();
+
+        const listener = (changes: { [key: string]: chrome.storage.StorageChange }, namespace: string) => {
+            if (isHistoryChange(changes, namespace)) {
+                loadHistory();
+            }
+        };
+        chrome.storage.onChanged.addListener(listener);
+        return () => chrome.storage.onChanged.removeListener(listener);
+    }, []);
+
+    async function loadHistory() {
+        const [historyData, trashData, snapshotData] = await Promise.all([getSettingsHistory(), getTrash(), getSnapshots()]);
+        setHistory(historyData);
+        setTrash(trashData);
+        setSnapshots(snapshotData);
+    }
+
+    async function handleRestoreTrashItem(item: TrashItem) {
+        if (await restoreTrashItem(item.id)) {
+            showMessage(`${describeTrashItem(item)}을(를) 복원했습니다.`);
+        } else {
+            showMessage('같은 이름의 사이트 규칙 또는 프리셋이 이미 있어 복원할 수 없습니다.', 'error');
+        }
+    }
+
+    async function handleCreateSnapshot() {
+        const name = snapshotName.trim() || new Date().toLocaleString();
+        if (await createSnapshot(name)) {
+            setSnapshotName('');
+            showMessage(`"${name}" 스냅샷을 저장했습니다.`);
+        } else {
+            showMessage(`스냅샷은 최대 ${MAX_SNAPSHOTS}개까지 저장할 수 있습니다.`, 'error');
+        }
+    }
+
+    async function handleRestoreSnapshot(snapshot: SettingsSnapshot) {
+        if (await restoreSnapshot(snapshot.id)) {
+            showMessage(`"${snapshot.name}" 스냅샷을 복원했습니다. 되돌리기로 취소할 수 있습니다.`);
+        }
+    }
+
+    const recentEntries = history.undo.slice(-VISIBLE_HISTORY_ENTRIES).reverse();
+
+    return (
+        <section className="card mb-6">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-medium">변경 기록</h2>
+                <UndoRedoButtons onConflict={(msg) => showMessage(msg, 'error')} />
+            </div>
+            <p className="text-xs mb-4" style={{ color: 'var(--text-secondary)' }}>
+                변경 기록, 휴지통, 스냅샷은 동기화되지 않고 이 기기에만 저장됩니다.
+            </p>
+
+            {/* 최근 변경 */}
+            {recentEntries.length > 0 && (
+                <div className="mb-5 space-y-1">
+                    {recentEntries.map((entry) => (
+                        <div key={entry.id} className="flex items-center justify-between gap-3 text-sm">
+                            <span className="truncate">{entry.label}</span>
+                            <span className="text-xs shrink-0" style={{ color: 'var(--text-secondary)' }}>
+                                {new Date(entry.timestamp).toLocaleString()}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* 휴지통 */}
+            <h3 className="text-sm font-medium mb-2">휴지통</h3>
+            {trash.length === 0 ? (
+                <p className="text-xs mb-5" style={{ color: 'var(--text-secondary)' }}>
+                    삭제한 사이트 규칙과 프리셋이 여기에 보관됩니다.
+                </p>
+            ) : (
+                <div className="mb-5 space-y-2">
+                    {[...trash].reverse().map((item) => (
+                        <div
+                            key={item.id}
+                            className="flex items-center gap-3 p-3 rounded-lg"
+                            style={{ backgroundColor: 'var(--bg-secondary)' }}
+                        >
+                            <div className="flex-1 min-w-0">
+                                <div className="font-mono text-sm truncate">{describeTrashItem(item)}</div>
+                                <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+                                    {new Date(item.deletedAt).toLocaleString()}에 삭제
+                                </div>
+                            </div>
+                            <button onClick={() => handleRestoreTrashItem(item)} className="btn-secondary text-sm">
+                                복원
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* 스냅샷 */}
+            <h3 className="text-sm font-medium mb-2">스냅샷</h3>
+            <div className="flex gap-3 mb-3">
+                <input
+                    type="text"
+                    value={snapshotName}
+                    onChange={(e) => setSnapshotName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreateSnapshot()}
+                    placeholder="스냅샷 이름 (비워 두면 현재 시각)"
+                    className="input-field flex-1"
+                />
+                <button onClick={handleCreateSnapshot} className="btn-primary">
+                    현재 설정 저장
+                </button>
+            </div>
+            {snapshots.length > 0 && (
+                <div className="space-y-2">
+                    {[...snapshots].reverse().map((snapshot) => (
+                        <div
+                            key={snapshot.id}
+                            className="flex items-center gap-3 p-3 rounded-lg"
+                            style={{ backgroundColor: 'var(--bg-secondary)' }}
+                        >
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm truncate">{snapshot.name}</div>
+                                <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+                                    {new Date(snapshot.createdAt).toLocaleString()} · 사이트 {Object.keys(snapshot.data.siteSettings).length}개 · 프리셋 {snapshot.data.presets.length}개
+                                </div>
+                            </div>
+                            <button onClick={() => handleRestoreSnapshot(snapshot)} className="btn-secondary text-sm">
+                                복원
+                            </button>
+                            <button
+                                onClick={() => removeSnapshot(snapshot.id)}
+                                className="text-sm px-3 py-1 rounded hover:bg-white/5"
+                                style={{ color: 'var(--text-secondary)' }}
+                            >
+                                삭제
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+}
+
+export default HistorySection;
@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import { addPreset, addFavoriteFont } from '../utils/storage';
+import { decodePresetCode, checkPresetFonts, SharedPreset, SharedFontStatus } from '../utils/presetShare';
+
+interface PresetImportPanelProps {
+    favoriteFonts: string[];
+    installedFonts: string[] | null;   // 설치 여부를 알 수 없으면 null
+    initialCode: string;               // 공유 링크로 열린 경우의 코드
+    onImported: () => void;
+    showMessage: (msg: string, type?: 'success' | 'error') => void;
+}
+
+const FONT_STATUS_LABELS: Record<SharedFontStatus, { label: string; color: string }> = {
+    registered: { label: '등록됨', color: 'var(--accent)' },
+    installed: { label: '설치됨 · 미등록', color: '#f0c040' },
+    missing: { label: '없음', color: '#e07070' },
+    unknown: { label: '미등록 · 설치 여부 알 수 없음', color: '#f0c040' },
+};
+
+// 공유 코드 / 링크로 프리셋 가져오기
+function PresetImportPanel({ favoriteFonts, installedFonts, initialCode, onImported, showMessage }: PresetImportPanelProps) {
+    const [codeInput, setCodeInput] = useState(initialCode);
+    const [pendingPreset, setPendingPreset] = useState<SharedPreset | null>(null);
+    const [registerFonts, setRegisterFonts] = useState(true);
+
+    // 공유 링크로 열렸으면 바로 확인
+    useEffect(() => {
+        if (initialCode) {
+            setCodeInput(initialCode);
+            handleCheckCode(initialCode);
+        }
+    }, [initialCode]);
+
+    async function handleCheckCode(input: string) {
+        if (!input.trim()) return;
+
+        try {
+            setPendingPreset(await decodePresetCode(input));
+        } catch (error) {
+            setPendingPreset(null);
+            showMessage(error instanceof Error ? error.message : '프리셋 코드를 읽을 수 없습니다.', 'error');
+        }
+    }
+
+    async function handleImport() {
+        if (!pendingPreset) return;
+
+        // 설치된 폰트는 폰트 목록에도 등록 (등록된 폰트만 편집기에서 선택할 수 있음)
+        if (registerFonts) {
+            for (const { family, status } of fonts) {
+                if (status === 'installed') await addFavoriteFont(family);
+            }
+        }
+
+        await addPreset(pendingPreset.name, pendingPreset.typography);
+        showMessage(`"${pendingPreset.name}" 프리셋을 가져왔습니다.`);
+        setPendingPreset(null);
+        setCodeInput('');
+        onImported();
+    }
+
+    const fonts = pendingPreset ? checkPresetFonts(pendingPreset.typography, favoriteFonts, installedFonts) : [];
+    const hasMissingFonts = fonts.some(font => font.status === 'missing');
+    const hasInstalledFonts = fonts.some(font => font.status === 'installed');
+
+    return (
+        <div className="mt-4">
+            <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                공유 코드 또는 링크로 가져오기
+            </label>
+            <div className="flex gap-3">
+                <input
+                    type="text"
+                    value={codeInput}
+                    onChange={(e) => setCodeInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCheckCode(codeInput)}
+                    placeholder="RFP1.…"
+                    className="input-field flex-1 font-mono text-sm"
+                />
+                <button onClick={() => handleCheckCode(codeInput)} className="btn-secondary">
+                    확인
+                </button>
+            </div>
+
+            {pendingPreset && (
+                <div className="mt-3 p-4 rounded-lg" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+                    <div className="font-medium text-sm">{pendingPreset.name}</div>
+                    <div className="text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+                        크기 {(pendingPreset.typography.styles.fontSizeScale * 100).toFixed(0)}% · 행간 {pendingPreset.typography.styles.lineHeight}
+                    </div>
+
+                    <div className="space-y-1 mb-3">
+                        {fonts.map(({ family, status }) => (
+                            <div key={family} className="flex items-center justify-between text-sm">
+                                <span style={{ fontFamily: family }}>{family}</span>
+                                <span className="text-xs" style={{ color: FONT_STATUS_LABELS[status].color }}>
+                                    {FONT_STATUS_LABELS[status].label}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {hasMissingFonts && (
+                        <div className="text-xs mb-3" style={{ color: '#e07070' }}>
+                            이 기기에 없는 폰트는 다음 폰트나 기본 폰트로 표시됩니다. 폰트를 설치하거나 웹 폰트로 추가해주세요.
+                        </div>
+                    )}
+                    {hasInstalledFonts && (
+                        <label className="flex items-center gap-2 text-xs mb-3" style={{ color: 'var(--text-secondary)' }}>
+                            <input
+                                type="checkbox"
+                                checked={registerFonts}
+                                onChange={(e) => setRegisterFonts(e.target.checked)}
+                            />
+                            설치된 폰트를 폰트 목록에 등록
+                        </label>
+                    )}
+
+                    <div className="flex gap-2">
+                        <button onClick={handleImport} className="btn-primary flex-1">
+                            프리셋 추가
+                        </button>
+                        <button onClick={() => setPendingPreset(null)} className="btn-secondary">
+                            취소
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default PresetImportPanel;
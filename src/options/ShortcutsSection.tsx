@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+
+// 단축키 목록 (변경은 브라우저의 확장 프로그램 단축키 페이지에서)
+function ShortcutsSection() {
+    const [commands, setCommands] = useState<chrome.commands.Command[]>([]);
+
+    useEffect(() => {
+        chrome.commands.getAll().then(setCommands);
+    }, []);
+
+    return (
+        <section className="card mb-6">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-medium">단축키</h2>
+                <button
+                    onClick={() => chrome.tabs.create({ url: 'chrome://extensions/shortcuts' })}
+                    className="btn-secondary text-sm"
+                >
+                    단축키 변경
+                </button>
+            </div>
+
+            <div className="space-y-1">
+                {commands
+                    .filter((command) => command.name !== '_execute_action')
+                    .map((command) => (
+                        <div key={command.name} className="flex items-center justify-between text-sm py-1">
+                            <span>{command.description}</span>
+                            <span
+                                className="font-mono text-xs px-2 py-0.5 rounded"
+                                style={{
+                                    backgroundColor: 'var(--bg-secondary)',
+                                    color: command.shortcut ? 'var(--text-primary)' : 'var(--text-secondary)'
+                                }}
+                            >
+                                {command.shortcut || '지정 안 됨'}
+                            </span>
+                        </div>
+                    ))}
+            </div>
+        </section>
+    );
+}
+
+export default ShortcutsSection;
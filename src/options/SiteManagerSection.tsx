@@ -0,0 +1,508 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+    setSiteSettings,
+    removeSite,
+    updateSites,
+    createDefaultSiteSettings
+} from '../utils/storage';
+import { resolveSettings, parseSiteRule, describeSiteRuleKind } from '../utils/siteMatcher';
+import { linkPreset, PRESET_OVERRIDE_LABELS } from '../utils/presetLink';
+import { UserStorage, SiteSettings, SiteStyles, BulkSiteChange } from '../types/storage';
+import StyleControls from '../components/StyleControls';
+
+interface SiteManagerSectionProps {
+    storage: UserStorage;
+    onChanged: () => void;
+    showMessage: (msg: string, type?: 'success' | 'error') => void;
+}
+
+type SiteSort = 'pattern' | 'font' | 'status';
+type StatusFilter = 'all' | 'active' | 'inactive';
+
+const SORT_LABELS: Record<SiteSort, string> = {
+    pattern: '규칙 이름순',
+    font: '폰트순',
+    status: '활성 먼저',
+};
+
+const STATUS_FILTER_LABELS: Record<StatusFilter, string> = {
+    all: '모든 상태',
+    active: '활성',
+    inactive: '비활성',
+};
+
+// 등록된 사이트 관리 (검색, 정렬, 필터, 일괄 변경, 스타일 바로 편집)
+function SiteManagerSection({ storage, onChanged, showMessage }: SiteManagerSectionProps) {
+    // 규칙 추가 / 매칭 확인
+    const [newRulePattern, setNewRulePattern] = useState('');
+    const [testUrl, setTestUrl] = useState('');
+
+    // 목록 보기
+    const [query, setQuery] = useState('');
+    const [sort, setSort] = useState<SiteSort>('pattern');
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+    const [fontFilter, setFontFilter] = useState('');
+
+    // 일괄 변경
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+    // 스타일을 바로 편집 중인 사이트
+    const [editing, setEditing] = useState<{ pattern: string; settings: SiteSettings } | null>(null);
+    // 마지막으로 저장을 요청한 설정 (다음 저장의 충돌 검사 기준)
+    const savedEditRef = useRef<SiteSettings | null>(null);
+
+    useEffect(() => {
+        loadCurrentTabUrl();
+    }, []);
+
+    // 웹 페이지 탭 중 활성 탭의 URL (규칙 매칭 확인용)
+    async function loadCurrentTabUrl() {
+        const tabs = await chrome.tabs.query({ active: true });
+        const pageTab = tabs.find(tab => tab.url && /^https?:/.test(tab.url));
+        if (pageTab?.url) {
+            setTestUrl(pageTab.url);
+        }
+    }
+
+    async function handleAddRule() {
+        const pattern = newRulePattern.trim();
+
+        if (!parseSiteRule(pattern)) {
+            showMessage('올바르지 않은 규칙입니다.', 'error');
+            return;
+        }
+
+        if (storage.siteSettings[pattern]) {
+            showMessage('이미 등록된 규칙입니다.', 'error');
+            return;
+        }
+
+        if (storage.favoriteFonts.length === 0) {
+            showMessage('먼저 폰트를 등록해주세요.', 'error');
+            return;
+        }
+
+        if (await setSiteSettings(pattern, createDefaultSiteSettings(storage.favoriteFonts[0]), null)) {
+            showMessage(`"${pattern}" 규칙이 추가되었습니다.`);
+            setNewRulePattern('');
+        } else {
+            showMessage('다른 창에서 이미 등록된 규칙입니다.', 'error');
+        }
+        onChanged();
+    }
+
+    async function handleRemoveSite(pattern: string) {
+        await removeSite(pattern);
+        if (editing?.pattern === pattern) {
+            setEditing(null);
+        }
+        onChanged();
+        showMessage(`"${pattern}" 규칙을 삭제했습니다. 휴지통에서 복원할 수 있습니다.`);
+    }
+
+    async function handleToggleActive(pattern: string, settings: SiteSettings) {
+        if (!await setSiteSettings(pattern, { ...settings, isActive: !settings.isActive }, settings)) {
+            showMessage('다른 창에서 설정이 변경되어 최신 설정을 불러왔습니다.', 'error');
+        }
+        onChanged();
+    }
+
+    async function handleLinkPreset(pattern: string, settings: SiteSettings, presetId: string) {
+        const preset = storage.presets.find(p => p.id === presetId);
+        if (!preset) return;
+
+        const saved = await setSiteSettings(pattern, linkPreset(settings, preset), settings);
+        onChanged();
+        showMessage(saved
+            ? `"${preset.name}" 프리셋에 연결되었습니다.`
+            : '다른 창에서 설정이 변경되어 최신 설정을 불러왔습니다.', saved ? 'success' : 'error');
+    }
+
+    // ---------------------------------------------------------------------------
+    // 스타일 바로 편집
+
+    function handleStartEdit(pattern: string, settings: SiteSettings) {
+        if (editing?.pattern === pattern) {
+            setEditing(null);
+            return;
+        }
+        savedEditRef.current = settings;
+        setEditing({ pattern, settings });
+    }
+
+    async function handleEditStyle<K extends keyof SiteStyles>(key: K, value: SiteStyles[K]) {
+        if (!editing) return;
+
+        const newSettings = { ...editing.settings, styles: { ...editing.settings.styles, [key]: value } };
+        const expected = savedEditRef.current;
+        savedEditRef.current = newSettings;
+        setEditing({ pattern: editing.pattern, settings: newSettings });
+
+        if (!await setSiteSettings(editing.pattern, newSettings, expected)) {
+            setEditing(null);
+            showMessage('편집 중에 다른 창에서 설정이 변경되어 최신 설정을 불러왔습니다.', 'error');
+            onChanged();
+        }
+    }
+
+    // ---------------------------------------------------------------------------
+    // 일괄 변경
+
+    async function handleBulkChange(change: BulkSiteChange, successMessage: string) {
+        const patterns = [...selected].filter(pattern => storage.siteSettings[pattern]);
+        if (patterns.length === 0) return;
+
+        if (await updateSites(patterns, change)) {
+            showMessage(successMessage);
+        } else {
+            showMessage('선택한 사이트가 다른 창에서 삭제되었거나 프리셋을 찾을 수 없습니다.', 'error');
+        }
+        if (change.kind === 'remove') {
+            setSelected(new Set());
+            setIsConfirmingDelete(false);
+            if (editing && patterns.includes(editing.pattern)) {
+                setEditing(null);
+            }
+        }
+        onChanged();
+    }
+
+    function toggleSelected(pattern: string) {
+        const next = new Set(selected);
+        if (next.has(pattern)) {
+            next.delete(pattern);
+        } else {
+            next.add(pattern);
+        }
+        setSelected(next);
+        setIsConfirmingDelete(false);
+    }
+
+    // ---------------------------------------------------------------------------
+
+    const resolvedForTestUrl = testUrl ? resolveSettings(testUrl, storage) : null;
+    const matchedPattern = resolvedForTestUrl?.match?.pattern ?? null;
+    const presetName = (settings: SiteSettings) =>
+        storage.presets.find(p => p.id === settings.presetId)?.name ?? null;
+
+    const allSites = Object.entries(storage.siteSettings);
+    const usedFonts = [...new Set(allSites.map(([, settings]) => settings.fontFamily))].sort();
+
+    // 규칙 이름, 폰트(대체 폰트 포함), 연결된 프리셋 이름으로 검색
+    const normalizedQuery = query.trim().toLowerCase();
+    const visibleSites = allSites
+        .filter(([pattern, settings]) => {
+            if (statusFilter !== 'all' && settings.isActive !== (statusFilter === 'active')) return false;
+            if (fontFilter && settings.fontFamily !== fontFilter) return false;
+            if (!normalizedQuery) return true;
+            return [pattern, settings.fontFamily, ...(settings.fallbackFonts || []), presetName(settings) || '']
+                .some(text => text.toLowerCase().includes(normalizedQuery));
+        })
+        .sort(([patternA, a], [patternB, b]) => {
+            if (sort === 'font') {
+                return a.fontFamily.localeCompare(b.fontFamily) || patternA.localeCompare(patternB);
+            }
+            if (sort === 'status') {
+                return Number(b.isActive) - Number(a.isActive) || patternA.localeCompare(patternB);
+            }
+            return patternA.localeCompare(patternB);
+        });
+
+    // 목록에서 사라진(삭제된) 규칙은 선택에서 제외
+    const selectedPatterns = [...selected].filter(pattern => storage.siteSettings[pattern]);
+    const isAllVisibleSelected = visibleSites.length > 0 && visibleSites.every(([pattern]) => selected.has(pattern));
+
+    function toggleAllVisible() {
+        const next = new Set(selected);
+        for (const [pattern] of visibleSites) {
+            if (isAllVisibleSelected) {
+                next.delete(pattern);
+            } else {
+                next.add(pattern);
+            }
+        }
+        setSelected(next);
+        setIsConfirmingDelete(false);
+    }
+
+    return (
+        <section className="card">
+            <h2 className="text-lg font-medium mb-4">
+                등록된 사이트
+                {allSites.length > 0 && (
+                    <span className="ml-2 text-sm font-normal" style={{ color: 'var(--text-secondary)' }}>
+                        {allSites.length}개
+                    </span>
+                )}
+            </h2>
+
+            {/* 규칙 추가 */}
+            <div className="flex gap-3 mb-3">
+                <input
+                    type="text"
+                    value={newRulePattern}
+                    onChange={(e) => setNewRulePattern(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddRule()}
+                    placeholder="예: *.example.com, example.com/docs/*, /^https:\/\/.+\.dev\//"
+                    className="input-field flex-1 font-mono"
+                />
+                <button onClick={handleAddRule} className="btn-primary">
+                    추가
+                </button>
+            </div>
+
+            {/* 규칙 매칭 확인 */}
+            <div className="mb-4">
+                <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                    URL 매칭 확인 (가장 구체적인 규칙이 적용됩니다)
+                </label>
+                <input
+                    type="text"
+                    value={testUrl}
+                    onChange={(e) => setTestUrl(e.target.value)}
+                    placeholder="https://docs.example.com/guide"
+                    className="input-field font-mono text-sm"
+                />
+                {testUrl && (
+                    <div className="text-xs mt-1.5" style={{ color: 'var(--text-secondary)' }}>
+                        {matchedPattern
+                            ? <>적용 규칙: <span className="font-mono" style={{ color: 'var(--accent)' }}>{matchedPattern}</span></>
+                            : resolvedForTestUrl?.source === 'global' && resolvedForTestUrl.settings.isActive
+                                ? '일치하는 규칙이 없어 전역 설정이 적용됩니다.'
+                                : '일치하는 규칙이 없습니다.'}
+                    </div>
+                )}
+            </div>
+
+            {allSites.length === 0 ? (
+                <p className="text-sm text-center py-6" style={{ color: 'var(--text-secondary)' }}>
+                    등록된 사이트가 없습니다.<br />
+                    웹사이트에서 팝업을 통해 등록하세요.
+                </p>
+            ) : (
+                <>
+                    {/* 검색 / 필터 / 정렬 */}
+                    <div className="flex flex-wrap gap-2 mb-3">
+                        <input
+                            type="search"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="규칙, 폰트, 프리셋 검색"
+                            className="input-field text-sm flex-1"
+                            style={{ minWidth: '180px' }}
+                        />
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                            className="input-field text-sm"
+                            style={{ width: 'auto' }}
+                        >
+                            {(Object.keys(STATUS_FILTER_LABELS) as StatusFilter[]).map((key) => (
+                                <option key={key} value={key}>{STATUS_FILTER_LABELS[key]}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={fontFilter}
+                            onChange={(e) => setFontFilter(e.target.value)}
+                            className="input-field text-sm"
+                            style={{ width: 'auto' }}
+                        >
+                            <option value="">모든 폰트</option>
+                            {usedFonts.map((font) => (
+                                <option key={font} value={font}>{font}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={sort}
+                            onChange={(e) => setSort(e.target.value as SiteSort)}
+                            className="input-field text-sm"
+                            style={{ width: 'auto' }}
+                        >
+                            {(Object.keys(SORT_LABELS) as SiteSort[]).map((key) => (
+                                <option key={key} value={key}>{SORT_LABELS[key]}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* 선택 / 일괄 변경 */}
+                    <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+                        <label className="flex items-center gap-2" style={{ color: 'var(--text-secondary)' }}>
+                            <input type="checkbox" checked={isAllVisibleSelected} onChange={toggleAllVisible} />
+                            {selectedPatterns.length > 0
+                                ? `${selectedPatterns.length}개 선택됨`
+                                : `${visibleSites.length}개 표시 중`}
+                        </label>
+
+                        {selectedPatterns.length > 0 && (
+                            <>
+                                <button
+                                    onClick={() => handleBulkChange({ kind: 'setActive', isActive: true }, `사이트 ${selectedPatterns.length}곳을 켰습니다.`)}
+                                    className="btn-secondary text-sm"
+                                >
+                                    켜기
+                                </button>
+                                <button
+                                    onClick={() => handleBulkChange({ kind: 'setActive', isActive: false }, `사이트 ${selectedPatterns.length}곳을 껐습니다.`)}
+                                    className="btn-secondary text-sm"
+                                >
+                                    끄기
+                                </button>
+                                {storage.presets.length > 0 && (
+                                    <select
+                                        value=""
+                                        onChange={(e) => {
+                                            const preset = storage.presets.find(p => p.id === e.target.value);
+                                            if (preset) {
+                                                handleBulkChange({ kind: 'linkPreset', presetId: preset.id },
+                                                    `사이트 ${selectedPatterns.length}곳을 "${preset.name}" 프리셋에 연결했습니다.`);
+                                            }
+                                        }}
+                                        className="input-field text-sm py-1"
+                                        style={{ width: 'auto' }}
+                                    >
+                                        <option value="" disabled>프리셋 연결...</option>
+                                        {storage.presets.map((preset) => (
+                                            <option key={preset.id} value={preset.id}>{preset.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                <select
+                                    value=""
+                                    onChange={(e) => e.target.value && handleBulkChange({ kind: 'setFont', fontFamily: e.target.value },
+                                        `사이트 ${selectedPatterns.length}곳의 폰트를 "${e.target.value}"(으)로 바꿨습니다.`)}
+                                    className="input-field text-sm py-1"
+                                    style={{ width: 'auto' }}
+                                >
+                                    <option value="" disabled>폰트 변경...</option>
+                                    {storage.favoriteFonts.map((font) => (
+                                        <option key={font} value={font}>{font}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => setIsConfirmingDelete(true)}
+                                    className="text-sm px-3 py-1 rounded hover:bg-white/5"
+                                    style={{ color: '#e07070' }}
+                                >
+                                    삭제
+                                </button>
+                            </>
+                        )}
+                    </div>
+
+                    {/* 일괄 삭제 확인 */}
+                    {isConfirmingDelete && selectedPatterns.length > 0 && (
+                        <div className="mb-3 p-3 rounded-lg flex items-center justify-between gap-3 text-sm" style={{
+                            backgroundColor: 'rgba(224, 112, 112, 0.1)',
+                            border: '1px solid rgba(224, 112, 112, 0.3)'
+                        }}>
+                            <span>
+                                선택한 사이트 {selectedPatterns.length}곳을 삭제할까요? 휴지통에서 복원할 수 있습니다.
+                            </span>
+                            <div className="flex gap-2 shrink-0">
+                                <button
+                                    onClick={() => handleBulkChange({ kind: 'remove' }, `사이트 ${selectedPatterns.length}곳을 삭제했습니다.`)}
+                                    className="btn-primary text-sm"
+                                >
+                                    삭제
+                                </button>
+                                <button onClick={() => setIsConfirmingDelete(false)} className="btn-secondary text-sm">
+                                    취소
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {visibleSites.length === 0 ? (
+                        <p className="text-sm text-center py-6" style={{ color: 'var(--text-secondary)' }}>
+                            조건에 맞는 사이트가 없습니다.
+                        </p>
+                    ) : (
+                        <div className="space-y-2">
+                            {visibleSites.map(([pattern, settings]) => (
+                                <div
+                                    key={pattern}
+                                    className="p-3 rounded-lg"
+                                    style={{
+                                        backgroundColor: 'var(--bg-secondary)',
+                                        border: pattern === matchedPattern ? '1px solid var(--accent)' : '1px solid transparent'
+                                    }}
+                                >
+                                    <div className="flex items-center gap-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.has(pattern)}
+                                            onChange={() => toggleSelected(pattern)}
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <div className="font-mono text-sm truncate">{pattern}</div>
+                                            <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+                                                {describeSiteRuleKind(parseSiteRule(pattern)?.kind ?? 'host')} · {settings.fontFamily} · {settings.isActive ? '활성' : '비활성'}
+                                                {presetName(settings) && (
+                                                    <>
+                                                        {' · '}프리셋 <span style={{ color: 'var(--accent)' }}>{presetName(settings)}</span>
+                                                        {settings.presetOverrides && settings.presetOverrides.length > 0 &&
+                                                            ` (재정의: ${settings.presetOverrides.map(key => PRESET_OVERRIDE_LABELS[key]).join(', ')})`}
+                                                    </>
+                                                )}
+                                                {pattern === matchedPattern && (
+                                                    <span style={{ color: 'var(--accent)' }}> · 매칭됨</span>
+                                                )}
+                                            </div>
+                                        </div>
+                                        <label className="toggle-switch" style={{ transform: 'scale(0.8)' }}>
+                                            <input
+                                                type="checkbox"
+                                                checked={settings.isActive}
+                                                onChange={() => handleToggleActive(pattern, settings)}
+                                            />
+                                            <span className="toggle-slider"></span>
+                                        </label>
+                                        {storage.presets.length > 0 && (
+                                            <select
+                                                className="input-field text-sm py-1"
+                                                style={{ width: 'auto', minWidth: '100px' }}
+                                                value={presetName(settings) ? settings.presetId : ''}
+                                                onChange={(e) => handleLinkPreset(pattern, settings, e.target.value)}
+                                            >
+                                                <option value="" disabled>프리셋...</option>
+                                                {storage.presets.map((preset) => (
+                                                    <option key={preset.id} value={preset.id}>
+                                                        {preset.name}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        )}
+                                        <button
+                                            onClick={() => handleStartEdit(pattern, settings)}
+                                            className="text-sm px-3 py-1 rounded hover:bg-white/5"
+                                            style={{ color: 'var(--accent)' }}
+                                        >
+                                            {editing?.pattern === pattern ? '닫기' : '편집'}
+                                        </button>
+                                        <button
+                                            onClick={() => handleRemoveSite(pattern)}
+                                            className="text-sm px-3 py-1 rounded hover:bg-white/5"
+                                            style={{ color: 'var(--text-secondary)' }}
+                                        >
+                                            삭제
+                                        </button>
+                                    </div>
+
+                                    {/* 스타일 바로 편집 (사이트를 열지 않고 수정) */}
+                                    {editing?.pattern === pattern && (
+                                        <div className="mt-3 pt-3" style={{ borderTop: '1px solid var(--border)' }}>
+                                            <StyleControls styles={editing.settings.styles} onChange={handleEditStyle} />
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+        </section>
+    );
+}
+
+export default SiteManagerSection;
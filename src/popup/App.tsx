@@ -1,23 +1,81 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
     getStorage,
-    getSiteSettings,
+    findSiteRule,
     setSiteSettings,
     createDefaultSiteSettings,
-    extractDomain
+    copyTypography,
+    addGlobalBlocklistEntry,
+    removeGlobalBlocklistEntry,
+    extractDomain,
+    isSettingsChange,
+    setPaused
 } from '../utils/storage';
-import { SiteSettings, UserStorage, ApplyStylesMessage, StylePreset } from '../types/storage';
+import {
+    suggestSitePatterns,
+    describeSiteRuleKind,
+    findBlocklistEntries,
+    SiteRuleKind
+} from '../utils/siteMatcher';
+import {
+    SiteSettings,
+    TypographySettings,
+    UserStorage,
+    ApplyStylesMessage,
+    StartPickerMessage,
+    PickerTarget,
+    StylePreset,
+    FramePolicy,
+    FRAME_POLICIES,
+    DEFAULT_STORAGE
+} from '../types/storage';
+import { linkPreset, unlinkPreset, findPresetOverrides, PRESET_OVERRIDE_LABELS } from '../utils/presetLink';
+import TypographyEditor from '../components/TypographyEditor';
+import SelectorListEditor from '../components/SelectorListEditor';
+import UndoRedoButtons from '../components/UndoRedoButtons';
+
+// 포함된 iframe 처리 방식
+const FRAME_POLICY_LABELS: Record<FramePolicy, string> = {
+    inherit: '이 사이트 설정 적용',
+    own: 'iframe 주소의 규칙 적용',
+    never: '적용 안 함',
+};
 
 function App() {
     const [domain, setDomain] = useState<string | null>(null);
     const [settings, setSettings] = useState<SiteSettings | null>(null);
-    const [storage, setStorageState] = useState<UserStorage>({ favoriteFonts: [], siteSettings: {}, presets: [] });
+    // 현재 탭에 일치한 사이트 규칙
+    const [rulePattern, setRulePattern] = useState<string | null>(null);
+    const [ruleKind, setRuleKind] = useState<SiteRuleKind | null>(null);
+    // 미등록 사이트 등록 시 사용할 규칙 후보
+    const [patternSuggestions, setPatternSuggestions] = useState<string[]>([]);
+    const [registerPattern, setRegisterPattern] = useState('');
+    const [tabUrl, setTabUrl] = useState('');
+    const [storage, setStorageState] = useState<UserStorage>({ ...DEFAULT_STORAGE });
     const [isInvalidPage, setIsInvalidPage] = useState(false);
+    const [conflictMessage, setConflictMessage] = useState('');
+    // 마지막으로 저장을 요청한 설정 (다음 저장의 충돌 검사 기준)
+    const savedSettingsRef = useRef<SiteSettings | null>(null);
+    // 응답을 기다리는 저장 요청 수
+    const pendingSavesRef = useRef(0);
 
     useEffect(() => {
         initPopup();
     }, []);
 
+    // 다른 창/탭에서 설정이 바뀌면 다시 불러오기 (저장 중인 변경은 충돌 검사로 처리)
+    useEffect(() => {
+        if (!tabUrl) return;
+
+        const listener = (changes: { [key: string]: chrome.storage.StorageChange }, namespace: string) => {
+            if (isSettingsChange(changes, namespace) && pendingSavesRef.current === 0) {
+                loadSiteState(tabUrl);
+            }
+        };
+        chrome.storage.onChanged.addListener(listener);
+        return () => chrome.storage.onChanged.removeListener(listener);
+    }, [tabUrl]);
+
     async function initPopup() {
         const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
         if (!tab.url) {
@@ -32,67 +90,171 @@ function App() {
         }
 
         setDomain(extractedDomain);
+        setTabUrl(tab.url);
+
+        const suggestions = suggestSitePatterns(tab.url);
+        setPatternSuggestions(suggestions);
+        setRegisterPattern(suggestions[0] || extractedDomain);
 
+        await loadSiteState(tab.url);
+    }
+
+    // 스토리지와 현재 URL에 일치하는 규칙 불러오기
+    async function loadSiteState(url: string): Promise<SiteSettings | null> {
         const storageData = await getStorage();
         setStorageState(storageData);
 
-        const siteSettings = await getSiteSettings(extractedDomain);
-        setSettings(siteSettings);
+        const match = await findSiteRule(url);
+        savedSettingsRef.current = match?.settings || null;
+        setSettings(match?.settings || null);
+        setRulePattern(match?.pattern || null);
+        setRuleKind(match?.kind || null);
+        return match?.settings || null;
     }
 
-    async function handleRegisterSite() {
-        if (!domain || storage.favoriteFonts.length === 0) return;
+    // 잠시 표시하는 안내 (충돌, 실패 등)
+    function showNotice(message: string) {
+        setConflictMessage(message);
+        setTimeout(() => setConflictMessage(''), 3000);
+    }
+
+    // 편집 중에 다른 곳에서 같은 규칙이 바뀐 경우 최신 설정으로 되돌림
+    async function handleConflict() {
+        showNotice('다른 창에서 설정이 변경되어 최신 설정을 불러왔습니다.');
+
+        const latest = await loadSiteState(tabUrl);
+        applyStyles(latest);
+    }
 
-        const defaultSettings = createDefaultSiteSettings(storage.favoriteFonts[0]);
-        await setSiteSettings(domain, defaultSettings);
+    // 현재 규칙 설정 저장 (화면에는 바로 반영하고, 저장 실패 시 충돌 처리)
+    async function saveSettings(newSettings: SiteSettings) {
+        if (!rulePattern) return;
+
+        const expected = savedSettingsRef.current;
+        savedSettingsRef.current = newSettings;
+        setSettings(newSettings);
+        applyStyles(newSettings);
+
+        pendingSavesRef.current++;
+        const saved = await setSiteSettings(rulePattern, newSettings, expected);
+        pendingSavesRef.current--;
+
+        if (!saved) {
+            await handleConflict();
+        }
+    }
+
+    async function handleRegisterSite() {
+        if (!domain || !registerPattern || storage.favoriteFonts.length === 0) return;
+
+        // 전역 설정이 있으면 그 값을 출발점으로 사용
+        const defaultSettings = storage.globalSettings
+            ? { isActive: true, ...copyTypography(storage.globalSettings) }
+            : createDefaultSiteSettings(storage.favoriteFonts[0]);
+        // 그사이 다른 곳에서 같은 규칙을 등록했으면 그 설정을 불러옴
+        if (!await setSiteSettings(registerPattern, defaultSettings, null)) {
+            await handleConflict();
+            return;
+        }
+        savedSettingsRef.current = defaultSettings;
         setSettings(defaultSettings);
+        setRulePattern(registerPattern);
+        setRuleKind(registerPattern.startsWith('*.') ? 'wildcard' : 'host');
         applyStyles(defaultSettings);
     }
 
     async function handleToggleActive() {
-        if (!domain || !settings) return;
+        if (!rulePattern || !settings) return;
 
         const newSettings = { ...settings, isActive: !settings.isActive };
-        await setSiteSettings(domain, newSettings);
-        setSettings(newSettings);
-        applyStyles(newSettings);
+        await saveSettings(newSettings);
     }
 
-    async function handleFontChange(fontFamily: string) {
-        if (!domain || !settings) return;
+    async function handleTypographyChange(typography: TypographySettings) {
+        if (!rulePattern || !settings) return;
 
-        const newSettings = { ...settings, fontFamily };
-        await setSiteSettings(domain, newSettings);
-        setSettings(newSettings);
-        applyStyles(newSettings);
+        const newSettings = { ...settings, ...typography };
+        await saveSettings(newSettings);
     }
 
-    async function handleStyleChange(key: keyof SiteSettings['styles'], value: string | number) {
-        if (!domain || !settings) return;
+    async function handleSelectorsChange(
+        changes: Pick<SiteSettings, 'excludeSelectors' | 'includeSelectors' | 'scopeSelectors'>
+    ) {
+        if (!rulePattern || !settings) return;
 
-        const newSettings = {
-            ...settings,
-            styles: { ...settings.styles, [key]: value }
-        };
-        await setSiteSettings(domain, newSettings);
-        setSettings(newSettings);
-        applyStyles(newSettings);
+        const newSettings = { ...settings, ...changes };
+        await saveSettings(newSettings);
+    }
+
+    async function handleFramePolicyChange(framePolicy: FramePolicy) {
+        if (!rulePattern || !settings) return;
+
+        await saveSettings({ ...settings, framePolicy });
     }
 
+    // 프리셋에 연결 (프리셋을 수정하면 이 사이트에도 반영, 여기서 바꾼 항목은 재정의로 유지)
     async function handleApplyPreset(preset: StylePreset) {
-        if (!domain || !settings) return;
+        if (!rulePattern || !settings) return;
+
+        await saveSettings(linkPreset(settings, preset));
+    }
 
-        const newSettings = {
-            ...settings,
-            fontFamily: preset.fontFamily,
-            styles: { ...preset.styles }
+    async function handleUnlinkPreset() {
+        if (!rulePattern || !settings) return;
+
+        await saveSettings(unlinkPreset(settings));
+    }
+
+    // 페이지에서 요소 선택 시작 (최상위 프레임만, 선택 후 결과는 콘텐츠 스크립트가 저장)
+    async function handleStartPicker(target: PickerTarget) {
+        if (!rulePattern) return;
+
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (!tab?.id) return;
+
+        const message: StartPickerMessage = {
+            action: "START_PICKER",
+            pattern: rulePattern,
+            target
         };
-        await setSiteSettings(domain, newSettings);
-        setSettings(newSettings);
-        applyStyles(newSettings);
+        // 콘텐츠 스크립트가 없는 탭 (브라우저 내부 페이지, 웹 스토어, 설치 전에 열린 탭)
+        try {
+            await chrome.tabs.sendMessage(tab.id, message, { frameId: 0 });
+        } catch {
+            showNotice('이 페이지에서는 요소를 선택할 수 없습니다. 페이지를 새로고침한 뒤 다시 시도해주세요.');
+            return;
+        }
+        window.close();
     }
 
-    function applyStyles(newSettings: SiteSettings) {
+    // 전역 설정 제외/해제 (제외는 현재 도메인, 해제는 현재 URL과 일치하는 모든 항목)
+    async function handleToggleGlobalBlock() {
+        if (!domain) return;
+
+        const entries = findBlocklistEntries(tabUrl, storage.globalBlocklist);
+        if (entries.length > 0) {
+            for (const entry of entries) {
+                await removeGlobalBlocklistEntry(entry);
+            }
+        } else {
+            await addGlobalBlocklistEntry(domain);
+        }
+
+        const storageData = await getStorage();
+        setStorageState(storageData);
+
+        const blocked = findBlocklistEntries(tabUrl, storageData.globalBlocklist).length > 0;
+        applyStyles(blocked ? null : storageData.globalSettings, storageData.isPaused);
+    }
+
+    // 모든 사이트 일시 중지 해제 (탭에는 storage.onChanged를 통해 다시 적용됨)
+    async function handleResume() {
+        await setPaused(false);
+        setStorageState(await getStorage());
+    }
+
+    // isPaused: 방금 다시 불러온 스토리지가 있으면 그 값 (state는 다음 렌더링까지 이전 값)
+    function applyStyles(newSettings: SiteSettings | null, isPaused = storage.isPaused) {
         if (!domain) return;
 
         chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
@@ -100,7 +262,7 @@ function App() {
                 const message: ApplyStylesMessage = {
                     action: "APPLY_STYLES",
                     domain,
-                    settings: newSettings.isActive ? newSettings : null
+                    settings: newSettings?.isActive && !isPaused ? newSettings : null
                 };
                 chrome.tabs.sendMessage(tabs[0].id, message);
             }
@@ -152,35 +314,125 @@ function App() {
         );
     }
 
+    // 모든 사이트에서 일시 중지된 경우 안내
+    const pausedBanner = storage.isPaused && (
+        <div className="mb-4 p-3 rounded-lg flex items-center justify-between gap-2" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+            <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>모든 사이트에서 일시 중지됨</div>
+            <button
+                onClick={handleResume}
+                className="text-xs px-2 py-1 rounded hover:bg-white/5"
+                style={{ color: 'var(--accent)' }}
+            >
+                다시 시작
+            </button>
+        </div>
+    );
+
+    // 설정 페이지 링크 / 되돌리기
+    const footer = (
+        <div className="mt-5 pt-4 flex items-center justify-between" style={{ borderTop: '1px solid var(--border)' }}>
+            <button
+                onClick={() => chrome.runtime.openOptionsPage()}
+                className="text-xs transition-colors"
+                style={{ color: 'var(--text-secondary)' }}
+            >
+                ⚙️ 전체 설정
+            </button>
+            {/* 되돌리기 결과는 storage.onChanged로 다시 불러옴 */}
+            <UndoRedoButtons onConflict={showNotice} />
+        </div>
+    );
+
     // 사이트 미등록
     if (!settings) {
+        const globalActive = !!storage.globalSettings?.isActive;
+        // 와일드카드나 다른 형태로 입력한 항목도 포함
+        const blockEntries = findBlocklistEntries(tabUrl, storage.globalBlocklist);
+        const globalBlocked = blockEntries.length > 0;
+
         return (
             <div className="w-80 p-5" style={{ backgroundColor: 'var(--bg-primary)' }}>
+                {pausedBanner}
+
+                {conflictMessage && <div className="message mb-4 text-xs">{conflictMessage}</div>}
+
                 <div className="mb-4 p-3 rounded-lg" style={{ backgroundColor: 'var(--bg-card)' }}>
                     <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>현재 사이트</div>
                     <div className="font-mono text-sm truncate">{domain}</div>
                 </div>
 
+                {/* 전역 설정 상태 */}
+                {globalActive && (
+                    <div className="mb-2 p-3 rounded-lg flex items-center justify-between gap-2" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+                        <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+                            {globalBlocked ? (
+                                <>전역 설정 제외됨 · <span className="font-mono">{blockEntries.join(', ')}</span></>
+                            ) : (
+                                <>전역 설정 적용 중 · <span style={{ color: 'var(--accent)' }}>{storage.globalSettings!.fontFamily}</span></>
+                            )}
+                        </div>
+                        <button
+                            onClick={handleToggleGlobalBlock}
+                            className="text-xs px-2 py-1 rounded hover:bg-white/5 shrink-0"
+                            style={{ color: 'var(--text-secondary)' }}
+                        >
+                            {globalBlocked ? '다시 적용' : '이 사이트 제외'}
+                        </button>
+                    </div>
+                )}
+
                 <div className="text-center py-4">
                     <p className="text-sm mb-4" style={{ color: 'var(--text-secondary)' }}>
-                        이 사이트에 폰트를 적용하시겠습니까?
+                        {globalActive && !globalBlocked
+                            ? '이 사이트 전용 설정을 만드시겠습니까?'
+                            : '이 사이트에 폰트를 적용하시겠습니까?'}
                     </p>
+                    {patternSuggestions.length > 1 && (
+                        <div className="mb-3 text-left">
+                            <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
+                                적용 범위
+                            </label>
+                            <select
+                                value={registerPattern}
+                                onChange={(e) => setRegisterPattern(e.target.value)}
+                                className="input-field font-mono"
+                            >
+                                {patternSuggestions.map((pattern) => (
+                                    <option key={pattern} value={pattern}>{pattern}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
                     <button onClick={handleRegisterSite} className="btn-primary w-full">
                         폰트 적용하기
                     </button>
                 </div>
+
+                {footer}
             </div>
         );
     }
 
+    // 연결된 프리셋과 재정의 항목 (편집 중인 값 기준)
+    const linkedPreset = storage.presets.find(p => p.id === settings.presetId) || null;
+    const overrides = linkedPreset ? findPresetOverrides(settings, linkedPreset) : [];
+
     // 등록된 사이트 - 스타일 편집 UI
     return (
         <div className="w-80 p-5" style={{ backgroundColor: 'var(--bg-primary)' }}>
+            {pausedBanner}
+
             {/* 헤더 */}
             <div className="flex items-center justify-between mb-5">
                 <div className="flex-1 min-w-0">
                     <div className="text-xs" style={{ color: 'var(--text-secondary)' }}>현재 사이트</div>
                     <div className="font-mono text-sm truncate">{domain}</div>
+                    {rulePattern && rulePattern !== domain && (
+                        <div className="text-xs truncate" style={{ color: 'var(--text-secondary)' }} title={rulePattern}>
+                            적용 규칙: <span className="font-mono" style={{ color: 'var(--accent)' }}>{rulePattern}</span>
+                            {ruleKind && ` (${describeSiteRuleKind(ruleKind)})`}
+                        </div>
+                    )}
                 </div>
 
                 {/* 토글 스위치 */}
@@ -194,13 +446,15 @@ function App() {
                 </label>
             </div>
 
+            {conflictMessage && <div className="message mb-4 text-xs">{conflictMessage}</div>}
+
             {settings.isActive && (
                 <div className="space-y-4">
                     {/* 프리셋 선택 */}
                     {storage.presets.length > 0 && (
                         <div>
                             <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
-                                프리셋 적용
+                                프리셋 연결
                             </label>
                             <select
                                 onChange={(e) => {
@@ -208,7 +462,7 @@ function App() {
                                     if (preset) handleApplyPreset(preset);
                                 }}
                                 className="input-field"
-                                defaultValue=""
+                                value={linkedPreset?.id || ''}
                             >
                                 <option value="" disabled>프리셋 선택...</option>
                                 {storage.presets.map((preset: StylePreset) => (
@@ -217,150 +471,87 @@ function App() {
                                     </option>
                                 ))}
                             </select>
+                            {linkedPreset && (
+                                <div className="flex items-center justify-between gap-2 mt-1.5 text-xs" style={{ color: 'var(--text-secondary)' }}>
+                                    <span className="truncate">
+                                        {overrides.length > 0
+                                            ? `재정의: ${overrides.map(key => PRESET_OVERRIDE_LABELS[key]).join(', ')}`
+                                            : '프리셋을 수정하면 이 사이트에도 반영됩니다.'}
+                                    </span>
+                                    <div className="flex gap-2 shrink-0">
+                                        {overrides.length > 0 && (
+                                            <button onClick={() => handleApplyPreset(linkedPreset)} style={{ color: 'var(--accent)' }}>
+                                                재정의 지우기
+                                            </button>
+                                        )}
+                                        <button onClick={handleUnlinkPreset}>연결 해제</button>
+                                    </div>
+                                </div>
+                            )}
                         </div>
                     )}
 
-                    {/* 폰트 선택 */}
+                    {/* 본문 / 제목 / 코드 */}
+                    <TypographyEditor
+                        fonts={storage.favoriteFonts}
+                        value={settings}
+                        onChange={handleTypographyChange}
+                    />
+
+                    {/* 사이트별 제외/포함 선택자 */}
+                    <details>
+                        <summary className="text-xs cursor-pointer" style={{ color: 'var(--text-secondary)' }}>
+                            요소 선택자
+                        </summary>
+                        <div className="mt-3 space-y-3">
+                            <div className="flex gap-2">
+                                <button onClick={() => handleStartPicker('exclude')} className="btn-secondary text-xs flex-1">
+                                    🎯 제외할 요소 선택
+                                </button>
+                                <button onClick={() => handleStartPicker('scope')} className="btn-secondary text-xs flex-1">
+                                    🎯 적용 범위 선택
+                                </button>
+                            </div>
+                            <SelectorListEditor
+                                label="제외할 요소"
+                                placeholder=".octicon, [data-icon]"
+                                selectors={settings.excludeSelectors || []}
+                                onChange={(selectors) => handleSelectorsChange({ excludeSelectors: selectors })}
+                            />
+                            <SelectorListEditor
+                                label="항상 적용할 요소"
+                                placeholder="article i, .post-body em"
+                                selectors={settings.includeSelectors || []}
+                                onChange={(selectors) => handleSelectorsChange({ includeSelectors: selectors })}
+                            />
+                            <SelectorListEditor
+                                label="이 안에서만 적용"
+                                placeholder="main, article"
+                                selectors={settings.scopeSelectors || []}
+                                onChange={(selectors) => handleSelectorsChange({ scopeSelectors: selectors })}
+                            />
+                        </div>
+                    </details>
+
+                    {/* 포함된 iframe (댓글, 문서 뷰어, 편집기 등) */}
                     <div>
                         <label className="block text-xs mb-1.5" style={{ color: 'var(--text-secondary)' }}>
-                            폰트
+                            포함된 프레임
                         </label>
                         <select
-                            value={settings.fontFamily}
-                            onChange={(e) => handleFontChange(e.target.value)}
+                            value={settings.framePolicy || 'own'}
+                            onChange={(e) => handleFramePolicyChange(e.target.value as FramePolicy)}
                             className="input-field"
                         >
-                            {storage.favoriteFonts.map((font) => (
-                                <option key={font} value={font} style={{ fontFamily: font }}>
-                                    {font}
-                                </option>
+                            {FRAME_POLICIES.map((policy) => (
+                                <option key={policy} value={policy}>{FRAME_POLICY_LABELS[policy]}</option>
                             ))}
                         </select>
                     </div>
-
-                    {/* Font Size Scale */}
-                    <div>
-                        <div className="flex justify-between text-xs mb-1.5">
-                            <span style={{ color: 'var(--text-secondary)' }}>폰트 크기</span>
-                            <span>{((settings.styles.fontSizeScale || 1) * 100).toFixed(0)}%</span>
-                        </div>
-                        <input
-                            type="range"
-                            min="0.8"
-                            max="1.6"
-                            step="0.05"
-                            value={settings.styles.fontSizeScale || 1}
-                            onChange={(e) => handleStyleChange('fontSizeScale', parseFloat(e.target.value))}
-                            className="slider-track w-full"
-                        />
-                    </div>
-
-                    {/* Line Height */}
-                    <div>
-                        <div className="flex justify-between text-xs mb-1.5">
-                            <span style={{ color: 'var(--text-secondary)' }}>행간</span>
-                            <span>{settings.styles.lineHeight}</span>
-                        </div>
-                        <input
-                            type="range"
-                            min="1"
-                            max="3"
-                            step="0.1"
-                            value={settings.styles.lineHeight}
-                            onChange={(e) => handleStyleChange('lineHeight', parseFloat(e.target.value))}
-                            className="slider-track w-full"
-                        />
-                    </div>
-
-                    {/* Letter Spacing */}
-                    <div>
-                        <div className="flex justify-between text-xs mb-1.5">
-                            <span style={{ color: 'var(--text-secondary)' }}>자간</span>
-                            <span>{settings.styles.letterSpacing}</span>
-                        </div>
-                        <input
-                            type="range"
-                            min="-2"
-                            max="10"
-                            step="0.5"
-                            value={parseFloat(settings.styles.letterSpacing)}
-                            onChange={(e) => handleStyleChange('letterSpacing', `${e.target.value}px`)}
-                            className="slider-track w-full"
-                        />
-                    </div>
-
-                    {/* Word Spacing */}
-                    <div>
-                        <div className="flex justify-between text-xs mb-1.5">
-                            <span style={{ color: 'var(--text-secondary)' }}>단어 간격</span>
-                            <span>{settings.styles.wordSpacing}</span>
-                        </div>
-                        <input
-                            type="range"
-                            min="0"
-                            max="20"
-                            step="1"
-                            value={parseFloat(settings.styles.wordSpacing)}
-                            onChange={(e) => handleStyleChange('wordSpacing', `${e.target.value}px`)}
-                            className="slider-track w-full"
-                        />
-                    </div>
-
-                    {/* Font Weight */}
-                    <div>
-                        <div className="flex justify-between items-center text-xs mb-1.5">
-                            <span style={{ color: 'var(--text-secondary)' }}>굵기 조절</span>
-                            <label className="toggle-switch" style={{ transform: 'scale(0.8)' }}>
-                                <input
-                                    type="checkbox"
-                                    checked={settings.styles.fontWeight !== 'inherit'}
-                                    onChange={(e) => {
-                                        if (e.target.checked) {
-                                            handleStyleChange('fontWeight', '400');
-                                        } else {
-                                            handleStyleChange('fontWeight', 'inherit');
-                                        }
-                                    }}
-                                />
-                                <span className="toggle-slider"></span>
-                            </label>
-                        </div>
-                        {settings.styles.fontWeight !== 'inherit' && (
-                            <>
-                                <div className="flex justify-between text-xs mb-1">
-                                    <span style={{ color: 'var(--text-secondary)' }}></span>
-                                    <span>{settings.styles.fontWeight}</span>
-                                </div>
-                                <input
-                                    type="range"
-                                    min="100"
-                                    max="900"
-                                    step="100"
-                                    value={parseInt(settings.styles.fontWeight) || 400}
-                                    onChange={(e) => handleStyleChange('fontWeight', e.target.value)}
-                                    className="slider-track w-full"
-                                />
-                            </>
-                        )}
-                        {settings.styles.fontWeight === 'inherit' && (
-                            <div className="text-xs py-1" style={{ color: 'var(--text-secondary)' }}>
-                                원본 유지
-                            </div>
-                        )}
-                    </div>
                 </div>
             )}
 
-            {/* 설정 페이지 링크 */}
-            <div className="mt-5 pt-4" style={{ borderTop: '1px solid var(--border)' }}>
-                <button
-                    onClick={() => chrome.runtime.openOptionsPage()}
-                    className="text-xs transition-colors"
-                    style={{ color: 'var(--text-secondary)' }}
-                >
-                    ⚙️ 전체 설정
-                </button>
-            </div>
+            {footer}
         </div>
     );
 }
@@ -5,21 +5,124 @@ export interface SiteStyles {
     wordSpacing: string;       // 예: "1px"
     fontWeight: string;        // 예: "400"
     fontSizeScale: number;     // 예: 1 (100%), 1.2 (120%)
+    maxWidth: number;          // 문단 최대 너비 (ch, 0이면 원본 유지)
+    paragraphSpacing: number;  // 문단 간격 (em, 0이면 원본 유지)
+    textAlign: TextAlign;      // 문단 정렬
+    textIndent: number;        // 문단 첫 줄 들여쓰기 (em, 0이면 원본 유지)
 }
 
+// 문단 정렬 ("inherit"이면 원본 정렬 유지)
+export type TextAlign = 'inherit' | 'start' | 'justify';
+
+// 문자 체계 (unicode-range로 구분해 폰트 지정)
+export type FontScript = 'latin' | 'hangul' | 'kana' | 'han';
+
+// 본문 외 타이포그래피 역할
+// - headings: h1 ~ h6
+// - monospace: code, pre, kbd, samp
+export type TypographyRole = 'headings' | 'monospace';
+
+// 역할별 스타일 (비활성화하면 본문 설정 / 원본 스타일을 따름)
+export interface RoleStyles {
+    enabled: boolean;
+    fontFamily: string;        // 빈 문자열이면 headings는 본문 폰트, monospace는 원본 폰트 유지
+    fontWeight: string;        // "inherit"이면 원본 굵기 유지
+    lineHeight: number;
+    fontSizeScale: number;     // 1이면 원본 크기 유지
+}
+
+// 색상 테마
+// - original: 원본 색 유지 (최소 명암비만 적용 가능)
+// - custom: 지정한 색 사용 (빈 문자열인 색은 원본 유지)
+// - dark: 내장 어두운 읽기 테마
+export type ColorTheme = 'original' | 'custom' | 'dark';
+
+// 글자/링크/배경 색과 명암비
+export interface ColorSettings {
+    theme: ColorTheme;
+    textColor: string;         // 예: "#333333"
+    linkColor: string;
+    backgroundColor: string;
+    minContrast: number;       // 글자와 배경의 최소 명암비 (WCAG, 0이면 사용 안 함, 예: 4.5, 7)
+}
+
+// 읽기 보조 기능 (난독증, 저시력)
+// 입력창과 편집 가능한 영역에는 적용하지 않음
+export interface ReadingAids {
+    dyslexiaFont: boolean;     // 내장 난독증용 폰트(OpenDyslexic)로 영문 표시
+    wordEmphasis: boolean;     // 단어 앞부분을 굵게 표시해 시선 고정을 도움
+    readingRuler: boolean;     // 마우스가 있는 줄 주변만 밝게 보이는 읽기 자
+    cursorHighlight: boolean;  // 마우스 위치를 큰 원으로 표시
+}
+
+// 사이트 설정과 프리셋이 공유하는 타이포그래피 설정
+export interface TypographySettings {
+    fontFamily: string;        // favoriteFonts 중 하나 (본문)
+    fallbackFonts?: string[];  // fontFamily에 없는 글자에 순서대로 사용할 폰트
+    scriptFonts?: Partial<Record<FontScript, string>>; // 문자 체계별 폰트 (fontFamily보다 우선)
+    styles: SiteStyles;        // 본문 스타일
+    roles?: Partial<Record<TypographyRole, RoleStyles>>;
+    colors?: ColorSettings;
+    aids?: ReadingAids;
+}
+
+// 페이지에 포함된 iframe(댓글, 문서 뷰어, 편집기 등)에 적용할 설정
+// - inherit: 최상위 페이지의 설정을 그대로 적용
+// - own: iframe 주소에 맞는 규칙 적용 (iframe 주소가 등록되지 않았으면 원본 유지)
+// - never: iframe에는 적용하지 않음
+export type FramePolicy = 'inherit' | 'own' | 'never';
+
+export const FRAME_POLICIES: FramePolicy[] = ['inherit', 'own', 'never'];
+
 // 특정 사이트에 대한 설정
-export interface SiteSettings {
+export interface SiteSettings extends TypographySettings {
     isActive: boolean;         // 활성화 여부
-    fontFamily: string;        // favoriteFonts 중 하나
-    styles: SiteStyles;
+    excludeSelectors?: string[];   // 폰트를 바꾸지 않을 요소 (기본 제외 목록에 추가)
+    includeSelectors?: string[];   // 제외 목록과 관계없이 폰트를 적용할 요소
+    scopeSelectors?: string[];     // 지정하면 이 요소 안에서만 폰트를 적용
+    framePolicy?: FramePolicy;     // 포함된 iframe 처리 (기본 own)
+    presetId?: string;             // 연결된 프리셋 (프리셋을 수정하면 이 사이트에도 반영)
+    presetOverrides?: PresetOverrideKey[]; // 연결된 프리셋 대신 이 사이트 값을 쓰는 항목
 }
 
+// 연결된 프리셋 위에 사이트별로 재정의할 수 있는 항목 (본문 스타일은 값 단위, 나머지는 묶음 단위)
+export type PresetOverrideKey =
+    | Exclude<keyof TypographySettings, 'styles'>
+    | `styles.${keyof SiteStyles}`;
+
+export const PRESET_OVERRIDE_KEYS: PresetOverrideKey[] = [
+    'fontFamily',
+    'fallbackFonts',
+    'scriptFonts',
+    'styles.fontSizeScale',
+    'styles.lineHeight',
+    'styles.letterSpacing',
+    'styles.wordSpacing',
+    'styles.fontWeight',
+    'styles.maxWidth',
+    'styles.paragraphSpacing',
+    'styles.textAlign',
+    'styles.textIndent',
+    'roles',
+    'colors',
+    'aids',
+];
+
 // 스타일 프리셋
-export interface StylePreset {
+export interface StylePreset extends TypographySettings {
     id: string;                // 고유 ID
     name: string;              // 프리셋 이름
-    fontFamily: string;        // 폰트
-    styles: SiteStyles;        // 스타일 설정
+}
+
+// 웹 폰트 (설치되지 않은 PC에서도 쓸 수 있도록 확장 프로그램에 저장)
+// chrome.storage.local에 보관 (sync 용량 제한 때문)
+export interface WebFont {
+    id: string;
+    family: string;            // font-family 이름 (favoriteFonts에도 등록됨)
+    source: 'file' | 'url' | 'css';
+    cssText: string;           // 주입할 @font-face 규칙
+    label: string;             // 파일 이름 또는 스타일시트 URL
+    size: number;              // cssText 크기 (bytes)
 }
 
 // 전체 스토리지 구조
@@ -27,13 +130,26 @@ export interface UserStorage {
     // 사용자가 등록한 폰트 이름 목록
     favoriteFonts: string[];
 
-    // 사이트별 설정 (Key: 도메인)
+    // 사이트별 설정 (Key: 사이트 규칙)
+    // 예: "example.com", "*.example.com", "example.com/docs/*", "/^https:\/\/.+\.dev\//"
     siteSettings: {
-        [domain: string]: SiteSettings;
+        [pattern: string]: SiteSettings;
     };
 
     // 스타일 프리셋 목록
     presets: StylePreset[];
+
+    // 전역 기본 설정 (등록되지 않은 모든 페이지에 적용, 없으면 null)
+    globalSettings: SiteSettings | null;
+
+    // 전역 설정을 적용하지 않을 사이트 (사이트 규칙 형식)
+    globalBlocklist: string[];
+
+    // 모든 사이트에서 폰트를 바꾸지 않을 요소 (아이콘 폰트 등)
+    defaultExclusions: string[];
+
+    // 모든 사이트에서 일시 중지 (사이트별 설정은 그대로 유지)
+    isPaused: boolean;
 }
 
 // 기본값
@@ -43,12 +159,76 @@ export const DEFAULT_SITE_STYLES: SiteStyles = {
     wordSpacing: "0px",
     fontWeight: "inherit",
     fontSizeScale: 1,
+    maxWidth: 0,
+    paragraphSpacing: 0,
+    textAlign: "inherit",
+    textIndent: 0,
+};
+
+export const DEFAULT_COLOR_SETTINGS: ColorSettings = {
+    theme: "original",
+    textColor: "",
+    linkColor: "",
+    backgroundColor: "",
+    minContrast: 0,
+};
+
+export const DEFAULT_READING_AIDS: ReadingAids = {
+    dyslexiaFont: false,
+    wordEmphasis: false,
+    readingRuler: false,
+    cursorHighlight: false,
+};
+
+// 내장 어두운 읽기 테마 색
+export const DARK_THEME_COLORS: Pick<ColorSettings, 'textColor' | 'linkColor' | 'backgroundColor'> = {
+    textColor: "#e0e0e0",
+    linkColor: "#8ab4f8",
+    backgroundColor: "#1e1e1e",
+};
+
+// 기본 제외 선택자 (아이콘 폰트 보호)
+export const DEFAULT_EXCLUSIONS: string[] = [
+    'i',
+    '[class*="icon"]',
+    '[class*="Icon"]',
+    '[class*="fa-"]',
+    '[class*="fa "]',
+    '[class*="fas "]',
+    '[class*="far "]',
+    '[class*="fab "]',
+    '[class*="material-icons"]',
+    '[class*="glyphicon"]',
+    '[class*="emoji"]',
+    'svg',
+    'svg *',
+];
+
+export const DEFAULT_ROLE_STYLES: Record<TypographyRole, RoleStyles> = {
+    headings: {
+        enabled: false,
+        fontFamily: "",
+        fontWeight: "inherit",
+        lineHeight: 1.3,
+        fontSizeScale: 1,
+    },
+    monospace: {
+        enabled: false,
+        fontFamily: "",
+        fontWeight: "inherit",
+        lineHeight: 1.5,
+        fontSizeScale: 1,
+    },
 };
 
 export const DEFAULT_STORAGE: UserStorage = {
     favoriteFonts: [],
     siteSettings: {},
     presets: [],
+    globalSettings: null,
+    globalBlocklist: [],
+    defaultExclusions: DEFAULT_EXCLUSIONS,
+    isPaused: false,
 };
 
 // 메시지 타입
@@ -58,4 +238,139 @@ export interface ApplyStylesMessage {
     settings: SiteSettings | null;
 }
 
-export type ExtensionMessage = ApplyStylesMessage;
+// 요소 선택기 (선택한 요소의 선택자를 사이트 설정에 저장)
+export type PickerTarget = 'exclude' | 'scope';
+
+export interface StartPickerMessage {
+    action: "START_PICKER";
+    pattern: string;           // 선택자를 저장할 사이트 규칙
+    target: PickerTarget;
+}
+
+// 마지막으로 우클릭한 요소의 선택자 조회 (컨텍스트 메뉴용, 응답: { selector: string | null })
+export interface GetContextSelectorMessage {
+    action: "GET_CONTEXT_SELECTOR";
+}
+
+export type ExtensionMessage = ApplyStylesMessage | StartPickerMessage | GetContextSelectorMessage;
+
+// 스토리지 변경 요청 (백그라운드 큐에서 순서대로 적용)
+// expected가 있으면 저장된 값이 그대로일 때만 적용 (다른 창에서 바뀌었으면 충돌)
+export type StorageMutation =
+    | { type: 'addFavoriteFont'; font: string }
+    | { type: 'removeFavoriteFont'; font: string }
+    | { type: 'setSiteSettings'; pattern: string; settings: SiteSettings; expected?: SiteSettings | null }
+    | { type: 'removeSite'; pattern: string }
+    | { type: 'addSiteSelector'; pattern: string; key: SiteSelectorKey; selector: string }
+    | { type: 'updateSites'; patterns: string[]; change: BulkSiteChange }
+    | { type: 'setGlobalSettings'; settings: SiteSettings | null; expected?: SiteSettings | null }
+    | { type: 'addGlobalBlocklistEntry'; pattern: string }
+    | { type: 'removeGlobalBlocklistEntry'; pattern: string }
+    | { type: 'setDefaultExclusions'; selectors: string[] }
+    | { type: 'setPaused'; paused: boolean }
+    | { type: 'addPreset'; preset: StylePreset }
+    | { type: 'removePreset'; presetId: string }
+    | { type: 'updatePreset'; presetId: string; name: string; typography: TypographySettings; expected?: StylePreset }
+    | { type: 'replaceStorage'; data: Partial<UserStorage> }
+    | { type: 'addWebFonts'; webFonts: WebFont[] }
+    | { type: 'removeWebFont'; id: string }
+    | { type: 'importWebFonts'; webFonts: WebFont[]; replace: boolean }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'restoreTrashItem'; itemId: string }
+    | { type: 'createSnapshot'; snapshotId: string; name: string }
+    | { type: 'restoreSnapshot'; snapshotId: string }
+    | { type: 'removeSnapshot'; snapshotId: string };
+
+export type SiteSelectorKey = 'excludeSelectors' | 'includeSelectors' | 'scopeSelectors';
+
+// 여러 사이트 규칙에 한 번에 적용할 변경 (적용 시점의 각 사이트 설정을 기준으로 계산)
+export type BulkSiteChange =
+    | { kind: 'setActive'; isActive: boolean }
+    | { kind: 'linkPreset'; presetId: string }
+    | { kind: 'setFont'; fontFamily: string }
+    | { kind: 'remove' };
+
+// 설정 변경 기록 (이 기기의 chrome.storage.local에만 보관)
+// - site: 사이트 규칙 하나 (null이면 규칙 없음)
+// - field: siteSettings 외의 최상위 필드
+export type SettingsChange =
+    | { kind: 'site'; pattern: string; before: SiteSettings | null; after: SiteSettings | null }
+    | { kind: 'field'; key: Exclude<keyof UserStorage, 'siteSettings'>; before: unknown; after: unknown };
+
+export interface HistoryEntry {
+    id: string;
+    label: string;             // 표시용 설명 (예: "example.com 설정 변경")
+    timestamp: number;         // 마지막으로 합쳐진 변경 시각
+    changes: SettingsChange[];
+}
+
+// 되돌리기 / 다시 실행 목록 (둘 다 마지막 항목이 다음 대상)
+export interface SettingsHistory {
+    undo: HistoryEntry[];
+    redo: HistoryEntry[];
+}
+
+// 삭제한 사이트 규칙 / 프리셋 (휴지통)
+export type TrashItem =
+    | { id: string; deletedAt: number; kind: 'site'; pattern: string; settings: SiteSettings }
+    | { id: string; deletedAt: number; kind: 'preset'; preset: StylePreset };
+
+// 이름을 붙여 저장한 전체 설정
+export interface SettingsSnapshot {
+    id: string;
+    name: string;
+    createdAt: number;
+    data: UserStorage;
+}
+
+export interface StorageMutationMessage {
+    action: "STORAGE_MUTATION";
+    mutation: StorageMutation;
+}
+
+// 스토리지 전체 조회 (응답: UserStorage)
+export interface GetStorageMessage {
+    action: "GET_STORAGE";
+}
+
+// 페이지 URL에 적용할 설정 조회 (응답: PageSettings)
+// iframe에서 보내면 백그라운드가 탭의 최상위 주소로 framePolicy를 확인
+export interface ResolvePageSettingsMessage {
+    action: "RESOLVE_PAGE_SETTINGS";
+    url: string;
+}
+
+// 콘텐츠 스크립트가 페이지에 적용할 설정
+export interface PageSettings {
+    settings: SiteSettings | null;     // 적용할 설정이 없거나 비활성화면 null
+    defaultExclusions: string[];
+    webFonts: WebFont[];               // 설정이 쓰는 웹 폰트만 (적용할 설정이 없으면 빈 배열)
+}
+
+// 최상위 페이지에 마지막으로 적용한 문서 CSS 전달 (적용하지 않으면 null)
+// 백그라운드가 규칙별로 보관했다가 다음 탐색 때 첫 페인트 전에 넣고, 이미 넣은 CSS는 제거
+export interface SetEarlyStylesMessage {
+    action: "SET_EARLY_STYLES";
+    url: string;
+    css: string | null;
+}
+
+// 백그라운드 서비스 워커가 받는 메시지
+export type BackgroundMessage =
+    | StorageMutationMessage
+    | GetStorageMessage
+    | ResolvePageSettingsMessage
+    | SetEarlyStylesMessage;
+
+// 탭별 Readable 상태 (툴바 아이콘/배지 표시용)
+// - active: 사이트 규칙 또는 전역 설정 적용 중
+// - paused: 일치하는 사이트 규칙이 꺼져 있거나 모든 사이트에서 일시 중지됨
+// - inactive: 등록되지 않았거나 전역 설정에서 제외됨
+export type TabStatus = 'active' | 'paused' | 'inactive';
+
+export interface TabState {
+    status: TabStatus;
+    source: 'site' | 'global' | null;
+    pattern: string | null;        // 일치한 사이트 규칙
+}
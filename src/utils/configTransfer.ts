@@ -0,0 +1,226 @@
+import { UserStorage, TypographySettings, WebFont } from '../types/storage';
+import { normalizeStorage } from './migrations';
+import { parseSiteRule } from './siteMatcher';
+import { pickTypography } from './presetShare';
+import { sanitizeWebFont } from './webFonts';
+import { isSameValue } from './history';
+
+// 내보내기 파일 형식 버전 (구조가 바뀌면 올리고 parseConfigExport에서 변환)
+export const CONFIG_EXPORT_VERSION = 1;
+const CONFIG_EXPORT_FORMAT = 'readable-config';
+
+export interface ConfigExport {
+    format: typeof CONFIG_EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    data: UserStorage;
+    webFonts?: WebFont[];      // 선택 사항 (용량이 클 수 있음)
+}
+
+// 가져오기 방식
+// - replace: 현재 설정을 모두 지우고 가져온 설정으로 교체
+// - keepMine: 합치되, 같은 사이트/프리셋은 현재 설정 유지
+// - preferIncoming: 합치되, 같은 사이트/프리셋은 가져온 설정으로 덮어쓰기
+export type MergeStrategy = 'replace' | 'keepMine' | 'preferIncoming';
+
+export interface ConfigDiffEntry {
+    key: string;               // 사이트 규칙 또는 프리셋 ID
+    label: string;             // 표시 이름
+    change: 'added' | 'removed' | 'changed';
+}
+
+export interface ConfigDiff {
+    sites: ConfigDiffEntry[];
+    presets: ConfigDiffEntry[];
+}
+
+export function createConfigExport(storage: UserStorage, webFonts?: WebFont[]): ConfigExport {
+    return {
+        format: CONFIG_EXPORT_FORMAT,
+        version: CONFIG_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        data: storage,
+        ...(webFonts && webFonts.length > 0 ? { webFonts } : {}),
+    };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// 사이트 설정 / 프리셋 공통 필드 검사
+function isValidTypography(value: unknown): boolean {
+    return isObject(value)
+        && typeof value.fontFamily === 'string'
+        && isObject(value.styles);
+}
+
+// 스타일 값은 CSS에 그대로 들어가므로 공유 코드와 같은 기준으로 다시 검증 (허용되지 않은 값은 기본값)
+function sanitizeTypography<T extends TypographySettings>(settings: T): T {
+    return { ...settings, ...pickTypography(settings) };
+}
+
+function sanitizeStorage(storage: UserStorage): UserStorage {
+    return {
+        ...storage,
+        siteSettings: Object.fromEntries(Object.entries(storage.siteSettings)
+            .map(([pattern, settings]) => [pattern, sanitizeTypography(settings)])),
+        presets: storage.presets.map(sanitizeTypography),
+        globalSettings: storage.globalSettings && sanitizeTypography(storage.globalSettings),
+    };
+}
+
+// 파일 내용 검증 (잘못된 경우 사용자에게 보여줄 메시지로 예외 발생)
+export function parseConfigExport(text: string): ConfigExport {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('JSON 파일을 읽을 수 없습니다.');
+    }
+
+    if (!isObject(parsed) || parsed.format !== CONFIG_EXPORT_FORMAT) {
+        throw new Error('Readable 설정 파일이 아닙니다.');
+    }
+
+    if (typeof parsed.version !== 'number' || parsed.version > CONFIG_EXPORT_VERSION) {
+        throw new Error('지원하지 않는 버전의 설정 파일입니다. 확장 프로그램을 업데이트해주세요.');
+    }
+
+    const data = parsed.data;
+    if (!isObject(data)) {
+        throw new Error('설정 데이터가 없습니다.');
+    }
+
+    if (data.favoriteFonts !== undefined && !isStringArray(data.favoriteFonts)) {
+        throw new Error('폰트 목록 형식이 올바르지 않습니다.');
+    }
+
+    if (data.siteSettings !== undefined) {
+        if (!isObject(data.siteSettings)
+            || !Object.values(data.siteSettings).every(site => isValidTypography(site))) {
+            throw new Error('사이트 설정 형식이 올바르지 않습니다.');
+        }
+
+        const invalidPattern = Object.keys(data.siteSettings).find(pattern => !parseSiteRule(pattern));
+        if (invalidPattern !== undefined) {
+            throw new Error(`올바르지 않은 사이트 규칙이 있습니다: ${invalidPattern}`);
+        }
+    }
+
+    if (data.presets !== undefined) {
+        if (!Array.isArray(data.presets) || !data.presets.every(preset =>
+            isValidTypography(preset) && typeof preset.id === 'string' && typeof preset.name === 'string')) {
+            throw new Error('프리셋 형식이 올바르지 않습니다.');
+        }
+    }
+
+    if (data.globalSettings !== undefined && data.globalSettings !== null && !isValidTypography(data.globalSettings)) {
+        throw new Error('전역 설정 형식이 올바르지 않습니다.');
+    }
+
+    for (const key of ['globalBlocklist', 'defaultExclusions'] as const) {
+        if (data[key] !== undefined && !isStringArray(data[key])) {
+            throw new Error('제외 목록 형식이 올바르지 않습니다.');
+        }
+    }
+
+    // @font-face 외의 CSS는 버리고 다시 만듦
+    const webFonts = Array.isArray(parsed.webFonts)
+        ? parsed.webFonts.map(sanitizeWebFont).filter((font): font is WebFont => font !== null)
+        : undefined;
+
+    return {
+        format: CONFIG_EXPORT_FORMAT,
+        version: parsed.version,
+        exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+        data: sanitizeStorage(normalizeStorage(data)),
+        webFonts,
+    };
+}
+
+function union(a: string[], b: string[]): string[] {
+    return [...new Set([...a, ...b])];
+}
+
+// 현재 설정과 가져온 설정 합치기
+export function mergeConfig(current: UserStorage, incoming: UserStorage, strategy: MergeStrategy): UserStorage {
+    if (strategy === 'replace') {
+        return { ...incoming };
+    }
+
+    const preferIncoming = strategy === 'preferIncoming';
+    const [base, overlay] = preferIncoming ? [current, incoming] : [incoming, current];
+
+    // overlay 쪽이 같은 키를 덮어씀
+    const presetsById = new Map(base.presets.map(preset => [preset.id, preset]));
+    for (const preset of overlay.presets) {
+        presetsById.set(preset.id, preset);
+    }
+
+    return {
+        favoriteFonts: union(current.favoriteFonts, incoming.favoriteFonts),
+        siteSettings: { ...base.siteSettings, ...overlay.siteSettings },
+        presets: [...presetsById.values()],
+        globalSettings: overlay.globalSettings ?? base.globalSettings,
+        globalBlocklist: union(current.globalBlocklist, incoming.globalBlocklist),
+        defaultExclusions: preferIncoming ? incoming.defaultExclusions : current.defaultExclusions,
+        isPaused: current.isPaused,
+    };
+}
+
+// 변경될 사이트/프리셋 목록
+export function diffConfig(current: UserStorage, next: UserStorage): ConfigDiff {
+    const sites: ConfigDiffEntry[] = [];
+    const allPatterns = union(Object.keys(current.siteSettings), Object.keys(next.siteSettings));
+
+    for (const pattern of allPatterns) {
+        const before = current.siteSettings[pattern];
+        const after = next.siteSettings[pattern];
+        if (!before) {
+            sites.push({ key: pattern, label: pattern, change: 'added' });
+        } else if (!after) {
+            sites.push({ key: pattern, label: pattern, change: 'removed' });
+        } else if (!isSameValue(before, after)) {
+            sites.push({ key: pattern, label: pattern, change: 'changed' });
+        }
+    }
+
+    const presets: ConfigDiffEntry[] = [];
+    const currentPresets = new Map(current.presets.map(preset => [preset.id, preset]));
+    const nextPresets = new Map(next.presets.map(preset => [preset.id, preset]));
+
+    for (const [id, after] of nextPresets) {
+        const before = currentPresets.get(id);
+        if (!before) {
+            presets.push({ key: id, label: after.name, change: 'added' });
+        } else if (!isSameValue(before, after)) {
+            presets.push({ key: id, label: after.name, change: 'changed' });
+        }
+    }
+    for (const [id, before] of currentPresets) {
+        if (!nextPresets.has(id)) {
+            presets.push({ key: id, label: before.name, change: 'removed' });
+        }
+    }
+
+    return { sites, presets };
+}
+
+// JSON 파일로 다운로드
+export function downloadConfigExport(config: ConfigExport): void {
+    const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const date = config.exportedAt.slice(0, 10);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `readable-settings-${date}.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,164 @@
+import { FontScript, TypographySettings, WebFont } from '../types/storage';
+
+// 문자 체계별 unicode-range
+export const SCRIPT_UNICODE_RANGES: Record<FontScript, string> = {
+    latin: 'U+0000-024F, U+1E00-1EFF, U+2000-206F, U+20A0-20CF, U+2100-214F',
+    hangul: 'U+1100-11FF, U+3130-318F, U+A960-A97F, U+AC00-D7AF, U+D7B0-D7FF',
+    kana: 'U+3040-309F, U+30A0-30FF, U+31F0-31FF, U+FF65-FF9F',
+    han: 'U+2E80-2FDF, U+3000-303F, U+3400-4DBF, U+4E00-9FFF, U+F900-FAFF, U+20000-2FA1F',
+};
+
+export const SCRIPT_LABELS: Record<FontScript, string> = {
+    latin: '영문 (Latin)',
+    hangul: '한글 (Hangul)',
+    kana: '가나 (Kana)',
+    han: '한자 (Han)',
+};
+
+export const FONT_SCRIPTS = Object.keys(SCRIPT_UNICODE_RANGES) as FontScript[];
+
+// 문자 체계별 폰트를 묶는 별칭 font-family
+const SCRIPT_ALIAS_FAMILY = 'Readable Script';
+
+export type CodeRange = [number, number];
+
+// "U+0000-024F, U+AC00" → [[0x0, 0x24F], [0xAC00, 0xAC00]]
+export function parseUnicodeRange(value: string): CodeRange[] {
+    return value.split(',').flatMap((part): CodeRange[] => {
+        const token = part.trim().toUpperCase().replace(/^U\+/, '');
+        if (!token) return [];
+
+        // 와일드카드 형식 (예: U+4??)
+        if (token.includes('?')) {
+            return [[parseInt(token.replace(/\?/g, '0'), 16), parseInt(token.replace(/\?/g, 'F'), 16)]];
+        }
+
+        const [start, end] = token.split('-');
+        const startCode = parseInt(start, 16);
+        const endCode = end ? parseInt(end, 16) : startCode;
+        return isNaN(startCode) || isNaN(endCode) ? [] : [[startCode, endCode]];
+    });
+}
+
+function formatUnicodeRange(ranges: CodeRange[]): string {
+    const hex = (code: number) => code.toString(16).toUpperCase();
+    return ranges
+        .map(([start, end]) => (start === end ? `U+${hex(start)}` : `U+${hex(start)}-${hex(end)}`))
+        .join(', ');
+}
+
+function intersectRanges(a: CodeRange[], b: CodeRange[]): CodeRange[] {
+    const result: CodeRange[] = [];
+    for (const [startA, endA] of a) {
+        for (const [startB, endB] of b) {
+            const start = Math.max(startA, startB);
+            const end = Math.min(endA, endB);
+            if (start <= end) result.push([start, end]);
+        }
+    }
+    return result;
+}
+
+export function quoteFamily(family: string): string {
+    return `"${family.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// @font-face 블록 단위로 나누기
+export function splitFontFaceBlocks(cssText: string): string[] {
+    return cssText.match(/@font-face\s*\{[^}]*\}/gi) || [];
+}
+
+// 웹 폰트의 @font-face 블록을 별칭 이름 + 문자 체계 범위로 다시 작성
+// (원래 unicode-range가 있으면 교집합만 남기고, 겹치지 않는 블록은 제외)
+function aliasWebFontFaces(webFont: WebFont, script: FontScript): string[] {
+    const scriptRanges = parseUnicodeRange(SCRIPT_UNICODE_RANGES[script]);
+
+    return splitFontFaceBlocks(webFont.cssText).flatMap(block => {
+        const rangeMatch = block.match(/unicode-range\s*:\s*([^;}]+)/i);
+        const ranges = rangeMatch
+            ? intersectRanges(parseUnicodeRange(rangeMatch[1]), scriptRanges)
+            : scriptRanges;
+        if (ranges.length === 0) return [];
+
+        const body = block
+            .replace(/^@font-face\s*\{/i, '')
+            .replace(/\}$/, '')
+            .replace(/font-family\s*:[^;}]+;?/i, '')
+            .replace(/unicode-range\s*:[^;}]+;?/i, '');
+
+        return [`@font-face {
+  font-family: ${quoteFamily(SCRIPT_ALIAS_FAMILY)};
+  ${body.trim()}
+  unicode-range: ${formatUnicodeRange(ranges)};
+}`];
+    });
+}
+
+// 설치된 폰트는 local()로 별칭 생성
+function aliasLocalFont(family: string, script: FontScript): string {
+    return `@font-face {
+  font-family: ${quoteFamily(SCRIPT_ALIAS_FAMILY)};
+  src: local(${quoteFamily(family)});
+  unicode-range: ${SCRIPT_UNICODE_RANGES[script]};
+}`;
+}
+
+// 설정에서 쓰는 폰트 이름 (본문, 대체, 문자 체계별, 켜진 역할)
+export function referencedFontFamilies(typography: TypographySettings): string[] {
+    const families = [
+        typography.fontFamily,
+        ...(typography.fallbackFonts || []),
+        ...Object.values(typography.scriptFonts || {}),
+        ...Object.values(typography.roles || {})
+            .filter(role => role?.enabled)
+            .map(role => role!.fontFamily),
+    ];
+    return [...new Set(families.filter((family): family is string => !!family))];
+}
+
+export interface FontStack {
+    fontFaceCSS: string;       // 설치된 폰트의 별칭 @font-face 규칙 (local()만 사용)
+    webFontFaces: string[];    // 웹 폰트와 그 별칭 @font-face 블록 (FontFace API로 불러옴)
+    fontFamilyCSS: string;     // font-family 속성 값
+}
+
+// 폰트 체인 생성: [문자 체계 별칭] → fontFamily → fallbackFonts → sans-serif
+export function buildFontStack(typography: TypographySettings, webFonts: WebFont[]): FontStack {
+    const localFaces: string[] = [];
+    const webAliasFaces: string[] = [];
+
+    for (const script of FONT_SCRIPTS) {
+        const family = typography.scriptFonts?.[script];
+        if (!family) continue;
+
+        const matchingWebFonts = webFonts.filter(font => font.family === family);
+        if (matchingWebFonts.length > 0) {
+            webAliasFaces.push(...matchingWebFonts.flatMap(font => aliasWebFontFaces(font, script)));
+        } else {
+            localFaces.push(aliasLocalFont(family, script));
+        }
+    }
+
+    const families = [
+        ...(localFaces.length > 0 || webAliasFaces.length > 0 ? [SCRIPT_ALIAS_FAMILY] : []),
+        typography.fontFamily,
+        ...(typography.fallbackFonts || []),
+    ];
+    const uniqueFamilies = [...new Set(families.filter(Boolean))];
+
+    // 역할(제목, 코드)에서 쓰는 폰트의 웹 폰트도 함께 포함
+    const roleFamilies = Object.values(typography.roles || {})
+        .filter(role => role?.enabled && role.fontFamily)
+        .map(role => role!.fontFamily);
+    const referencedFamilies = [...uniqueFamilies, ...roleFamilies];
+
+    const usedWebFontFaces = webFonts
+        .filter(font => referencedFamilies.includes(font.family))
+        .flatMap(font => splitFontFaceBlocks(font.cssText));
+
+    return {
+        fontFaceCSS: localFaces.join('\n'),
+        webFontFaces: [...usedWebFontFaces, ...webAliasFaces],
+        fontFamilyCSS: [...uniqueFamilies.map(quoteFamily), 'sans-serif'].join(', '),
+    };
+}
@@ -0,0 +1,181 @@
+import {
+    UserStorage,
+    StorageMutation,
+    SettingsChange,
+    SettingsHistory,
+    HistoryEntry,
+    DEFAULT_STORAGE
+} from '../types/storage';
+import { RawStorage } from './migrations';
+
+// 기록 자체를 다루는 요청 (설정 변경 기록에 남기지 않음)
+export type HistoryMutation = Extract<StorageMutation, { type: 'undo' | 'redo' | 'createSnapshot' | 'removeSnapshot' }>;
+
+// 설정 변경 기록에 남기는 요청
+export type RecordedMutation = Exclude<StorageMutation, HistoryMutation>;
+
+const HISTORY_MUTATION_TYPES: HistoryMutation['type'][] = ['undo', 'redo', 'createSnapshot', 'removeSnapshot'];
+
+export function isHistoryMutation(mutation: StorageMutation): mutation is HistoryMutation {
+    return (HISTORY_MUTATION_TYPES as string[]).includes(mutation.type);
+}
+
+// 보관 개수 제한
+export const MAX_HISTORY_ENTRIES = 50;
+export const MAX_TRASH_ITEMS = 30;
+export const MAX_SNAPSHOTS = 20;
+
+// 기록 전체 크기 제한 (설정 가져오기처럼 큰 변경이 쌓여도 local 저장 공간을 다 쓰지 않도록)
+const MAX_HISTORY_LENGTH = 2 * 1024 * 1024;
+
+// 같은 대상을 이 시간 안에 다시 바꾸면 하나의 기록으로 합침 (슬라이더를 끄는 동안의 연속 저장 등)
+const COALESCE_MS = 2000;
+
+// 키 순서와 무관하게 값 비교 (충돌 감지용)
+export function isSameValue(a: unknown, b: unknown): boolean {
+    const stable = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(stable);
+        if (typeof value === 'object' && value !== null) {
+            return Object.fromEntries(Object.keys(value).sort()
+                .filter(key => (value as RawStorage)[key] !== undefined)
+                .map(key => [key, stable((value as RawStorage)[key])]));
+        }
+        return value;
+    };
+    return JSON.stringify(stable(a)) === JSON.stringify(stable(b));
+}
+
+// 두 스토리지의 차이 (사이트는 규칙 단위, 나머지는 필드 단위)
+export function diffStorage(before: UserStorage, after: UserStorage): SettingsChange[] {
+    const changes: SettingsChange[] = [];
+
+    const patterns = new Set([...Object.keys(before.siteSettings), ...Object.keys(after.siteSettings)]);
+    for (const pattern of patterns) {
+        const previous = before.siteSettings[pattern] || null;
+        const next = after.siteSettings[pattern] || null;
+        if (!isSameValue(previous, next)) {
+            changes.push({ kind: 'site', pattern, before: previous, after: next });
+        }
+    }
+
+    for (const key of Object.keys(DEFAULT_STORAGE) as (keyof UserStorage)[]) {
+        if (key !== 'siteSettings' && !isSameValue(before[key], after[key])) {
+            changes.push({ kind: 'field', key, before: before[key], after: after[key] });
+        }
+    }
+
+    return changes;
+}
+
+function changeTarget(change: SettingsChange): string {
+    return change.kind === 'site' ? `site:${change.pattern}` : `field:${change.key}`;
+}
+
+// 현재 스토리지가 기록의 한쪽 값과 같은지 (되돌리기 전에 다른 곳에서 다시 바뀌었는지 확인)
+export function matchesStorage(storage: UserStorage, changes: SettingsChange[], side: 'before' | 'after'): boolean {
+    return changes.every(change => isSameValue(
+        change.kind === 'site' ? storage.siteSettings[change.pattern] || null : storage[change.key],
+        change[side]
+    ));
+}
+
+// 직전 기록과 합칠 수 있으면 합친 변경 목록 반환 (같은 설명, 같은 대상, 짧은 간격)
+function coalesce(last: HistoryEntry, entry: HistoryEntry): SettingsChange[] | null {
+    if (last.label !== entry.label || entry.timestamp - last.timestamp > COALESCE_MS) return null;
+    if (last.changes.length !== entry.changes.length) return null;
+
+    const previous = new Map(last.changes.map(change => [changeTarget(change), change]));
+    if (!entry.changes.every(change => previous.has(changeTarget(change)))) return null;
+
+    // 처음 값은 직전 기록에서, 마지막 값은 새 기록에서
+    return entry.changes
+        .map(change => ({ ...change, before: previous.get(changeTarget(change))!.before }) as SettingsChange)
+        .filter(change => !isSameValue(change.before, change.after));
+}
+
+// 새 변경을 기록하고 다시 실행 목록 비우기 (오래된 기록부터 개수/크기 제한만큼 삭제)
+export function pushHistoryEntry(history: SettingsHistory, entry: HistoryEntry): SettingsHistory {
+    let undo = [...history.undo];
+    const last = undo[undo.length - 1];
+    // 되돌린 뒤의 새 변경은 되돌린 기록과 합치지 않음
+    const merged = last && history.redo.length === 0 ? coalesce(last, entry) : null;
+
+    if (merged) {
+        undo.pop();
+        // 합친 결과 원래 값으로 돌아왔으면 기록하지 않음
+        if (merged.length > 0) {
+            undo.push({ ...last, timestamp: entry.timestamp, changes: merged });
+        }
+    } else {
+        undo.push(entry);
+    }
+
+    undo = undo.slice(-MAX_HISTORY_ENTRIES);
+    while (undo.length > 1 && JSON.stringify(undo).length > MAX_HISTORY_LENGTH) {
+        undo.shift();
+    }
+
+    return { undo, redo: [] };
+}
+
+// 기록 목록에 표시할 설명
+export function describeMutation(mutation: RecordedMutation, before: UserStorage): string {
+    switch (mutation.type) {
+        case 'addFavoriteFont':
+            return `폰트 등록: ${mutation.font.trim()}`;
+        case 'removeFavoriteFont':
+            return `폰트 삭제: ${mutation.font}`;
+        case 'setSiteSettings':
+            return `${mutation.pattern} 설정 변경`;
+        case 'removeSite':
+            return `${mutation.pattern} 삭제`;
+        case 'addSiteSelector':
+            return `${mutation.pattern} 선택자 추가`;
+        case 'updateSites': {
+            const count = mutation.patterns.length;
+            switch (mutation.change.kind) {
+                case 'setActive':
+                    return `사이트 ${count}곳 ${mutation.change.isActive ? '켜기' : '끄기'}`;
+                case 'linkPreset': {
+                    const presetId = mutation.change.presetId;
+                    const preset = before.presets.find(p => p.id === presetId);
+                    return `사이트 ${count}곳 프리셋 연결: ${preset?.name ?? presetId}`;
+                }
+                case 'setFont':
+                    return `사이트 ${count}곳 폰트 변경: ${mutation.change.fontFamily}`;
+                case 'remove':
+                    return `사이트 ${count}곳 삭제`;
+            }
+        }
+        case 'setGlobalSettings':
+            return '전역 설정 변경';
+        case 'addGlobalBlocklistEntry':
+            return `전역 설정 제외: ${mutation.pattern.trim()}`;
+        case 'removeGlobalBlocklistEntry':
+            return `전역 설정 제외 해제: ${mutation.pattern}`;
+        case 'setDefaultExclusions':
+            return '제외 선택자 변경';
+        case 'setPaused':
+            return mutation.paused ? '모든 사이트 일시 중지' : '일시 중지 해제';
+        case 'addPreset':
+            return `프리셋 추가: ${mutation.preset.name}`;
+        case 'removePreset': {
+            const preset = before.presets.find(p => p.id === mutation.presetId);
+            return `프리셋 삭제: ${preset?.name ?? mutation.presetId}`;
+        }
+        case 'updatePreset':
+            return `프리셋 수정: ${mutation.name.trim()}`;
+        case 'replaceStorage':
+            return '설정 가져오기';
+        case 'addWebFonts':
+            return `웹 폰트 추가: ${[...new Set(mutation.webFonts.map(font => font.family))].join(', ')}`;
+        case 'removeWebFont':
+            return '웹 폰트 삭제';
+        case 'importWebFonts':
+            return '웹 폰트 가져오기';
+        case 'restoreTrashItem':
+            return '휴지통에서 복원';
+        case 'restoreSnapshot':
+            return '스냅샷 복원';
+    }
+}
@@ -0,0 +1,183 @@
+import {
+    UserStorage,
+    SiteSettings,
+    StylePreset,
+    TypographySettings,
+    RoleStyles,
+    TypographyRole,
+    FramePolicy,
+    DEFAULT_SITE_STYLES,
+    DEFAULT_EXCLUSIONS,
+    DEFAULT_ROLE_STYLES,
+    DEFAULT_COLOR_SETTINGS,
+    DEFAULT_READING_AIDS,
+    FRAME_POLICIES,
+    PRESET_OVERRIDE_KEYS,
+    PresetOverrideKey
+} from '../types/storage';
+
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// 사이트 설정 저장 키 접두사 (sync 항목당 용량 제한 때문에 사이트마다 별도 키로 저장)
+export const SITE_KEY_PREFIX = 'site:';
+
+// 저장된 원본 데이터 (이전 버전 구조일 수 있음)
+export type RawStorage = Record<string, unknown>;
+
+interface Migration {
+    version: number;           // 이 마이그레이션 적용 후의 스키마 버전
+    description: string;
+    migrate: (data: RawStorage) => RawStorage;
+}
+
+function isObject(value: unknown): value is RawStorage {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringArray(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+// 역할 설정 정규화 (없는 역할은 그대로 비워 둠)
+function normalizeRoles(roles: unknown): TypographySettings['roles'] {
+    if (!isObject(roles)) return {};
+
+    const result: TypographySettings['roles'] = {};
+    for (const role of Object.keys(DEFAULT_ROLE_STYLES) as TypographyRole[]) {
+        if (isObject(roles[role])) {
+            result[role] = { ...DEFAULT_ROLE_STYLES[role], ...roles[role] } as RoleStyles;
+        }
+    }
+    return result;
+}
+
+// 타이포그래피 설정을 현재 구조로 채우기 (누락된 키는 기본값)
+// 저장된 값과 현재 타입의 값 모두 받으므로 필드는 하나씩 확인
+export function normalizeTypography(source: object): TypographySettings {
+    const raw = source as RawStorage;
+    return {
+        fontFamily: typeof raw.fontFamily === 'string' ? raw.fontFamily : '',
+        fallbackFonts: stringArray(raw.fallbackFonts),
+        scriptFonts: isObject(raw.scriptFonts) ? { ...raw.scriptFonts } : {},
+        styles: { ...DEFAULT_SITE_STYLES, ...(isObject(raw.styles) ? raw.styles : {}) },
+        roles: normalizeRoles(raw.roles),
+        colors: { ...DEFAULT_COLOR_SETTINGS, ...(isObject(raw.colors) ? raw.colors : {}) },
+        aids: { ...DEFAULT_READING_AIDS, ...(isObject(raw.aids) ? raw.aids : {}) },
+    };
+}
+
+export function normalizeSiteSettings(source: object): SiteSettings {
+    const raw = source as RawStorage;
+    return {
+        ...raw,
+        isActive: typeof raw.isActive === 'boolean' ? raw.isActive : true,
+        ...normalizeTypography(raw),
+        excludeSelectors: stringArray(raw.excludeSelectors),
+        includeSelectors: stringArray(raw.includeSelectors),
+        scopeSelectors: stringArray(raw.scopeSelectors),
+        framePolicy: FRAME_POLICIES.includes(raw.framePolicy as FramePolicy) ? raw.framePolicy as FramePolicy : 'own',
+        // 프리셋에 연결되지 않은 사이트는 재정의 목록도 저장하지 않음
+        presetId: typeof raw.presetId === 'string' ? raw.presetId : undefined,
+        presetOverrides: typeof raw.presetId === 'string'
+            ? stringArray(raw.presetOverrides).filter((key): key is PresetOverrideKey =>
+                PRESET_OVERRIDE_KEYS.includes(key as PresetOverrideKey))
+            : undefined,
+    };
+}
+
+export function normalizePreset(source: object): StylePreset {
+    const raw = source as RawStorage;
+    return {
+        ...raw,
+        id: String(raw.id),
+        name: typeof raw.name === 'string' ? raw.name : '',
+        ...normalizeTypography(raw),
+    };
+}
+
+// 스토리지 전체 정규화 (UI와 콘텐츠 스크립트가 구조를 신뢰할 수 있도록)
+export function normalizeStorage(source: object): UserStorage {
+    const raw = source as RawStorage;
+    const siteSettings: UserStorage['siteSettings'] = {};
+    if (isObject(raw.siteSettings)) {
+        for (const [pattern, settings] of Object.entries(raw.siteSettings)) {
+            if (isObject(settings)) {
+                siteSettings[pattern] = normalizeSiteSettings(settings);
+            }
+        }
+    }
+
+    return {
+        favoriteFonts: stringArray(raw.favoriteFonts),
+        siteSettings,
+        presets: Array.isArray(raw.presets)
+            ? raw.presets.filter(isObject).map(normalizePreset)
+            : [],
+        globalSettings: isObject(raw.globalSettings) ? normalizeSiteSettings(raw.globalSettings) : null,
+        globalBlocklist: stringArray(raw.globalBlocklist),
+        defaultExclusions: Array.isArray(raw.defaultExclusions)
+            ? stringArray(raw.defaultExclusions)
+            : [...DEFAULT_EXCLUSIONS],
+        isPaused: raw.isPaused === true,
+    };
+}
+
+// 마이그레이션 목록 (버전 순서대로, 이미 배포된 항목은 수정하지 말 것)
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'presets 필드 추가',
+        migrate: (data) => ({ ...data, presets: data.presets || [] }),
+    },
+    {
+        version: 2,
+        description: '전역 설정 및 제외 목록 추가',
+        migrate: (data) => ({
+            ...data,
+            globalSettings: data.globalSettings || null,
+            globalBlocklist: data.globalBlocklist || [],
+        }),
+    },
+    {
+        version: 3,
+        description: '기본 제외 선택자 저장',
+        migrate: (data) => ({
+            ...data,
+            defaultExclusions: data.defaultExclusions || [...DEFAULT_EXCLUSIONS],
+        }),
+    },
+    {
+        version: 4,
+        description: '사이트 설정 / 프리셋 구조 정규화',
+        migrate: (data) => ({ ...data, ...normalizeStorage(data) }),
+    },
+    {
+        version: 5,
+        description: '사이트 설정을 사이트별 키로 분할',
+        migrate: ({ siteSettings, ...data }) => {
+            const result: RawStorage = { ...data };
+            for (const [pattern, settings] of Object.entries(siteSettings || {})) {
+                // 이미 분할 저장된 사이트는 그쪽이 최신
+                result[SITE_KEY_PREFIX + pattern] ??= settings;
+            }
+            return result;
+        },
+    },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// 저장된 스키마 버전 이후의 마이그레이션을 순서대로 적용 (최신이면 null)
+export function applyMigrations(data: RawStorage): RawStorage | null {
+    const fromVersion = typeof data[SCHEMA_VERSION_KEY] === 'number' ? data[SCHEMA_VERSION_KEY] : 0;
+
+    const pending = MIGRATIONS.filter(migration => migration.version > fromVersion);
+    if (pending.length === 0) return null;
+
+    let migrated = data;
+    for (const migration of pending) {
+        migrated = migration.migrate(migrated);
+    }
+
+    return { ...migrated, [SCHEMA_VERSION_KEY]: CURRENT_SCHEMA_VERSION };
+}
@@ -0,0 +1,111 @@
+import {
+    UserStorage,
+    SiteSettings,
+    SiteStyles,
+    StylePreset,
+    TypographySettings,
+    PresetOverrideKey,
+    PRESET_OVERRIDE_KEYS
+} from '../types/storage';
+import { normalizeTypography } from './migrations';
+import { isSameValue } from './history';
+
+// 사이트 목록 등에 표시할 재정의 항목 이름
+export const PRESET_OVERRIDE_LABELS: Record<PresetOverrideKey, string> = {
+    'fontFamily': '폰트',
+    'fallbackFonts': '대체 폰트',
+    'scriptFonts': '문자별 폰트',
+    'styles.fontSizeScale': '크기',
+    'styles.lineHeight': '행간',
+    'styles.letterSpacing': '자간',
+    'styles.wordSpacing': '단어 간격',
+    'styles.fontWeight': '굵기',
+    'styles.maxWidth': '최대 너비',
+    'styles.paragraphSpacing': '문단 간격',
+    'styles.textAlign': '정렬',
+    'styles.textIndent': '들여쓰기',
+    'roles': '제목/코드',
+    'colors': '색상',
+    'aids': '읽기 보조',
+};
+
+type StyleOverrideKey = Extract<PresetOverrideKey, `styles.${string}`>;
+
+function isStyleOverrideKey(key: PresetOverrideKey): key is StyleOverrideKey {
+    return key.startsWith('styles.');
+}
+
+// "styles.lineHeight" → "lineHeight"
+function styleKey(key: StyleOverrideKey): keyof SiteStyles {
+    return key.slice('styles.'.length) as keyof SiteStyles;
+}
+
+function getField(typography: TypographySettings, key: PresetOverrideKey): unknown {
+    return isStyleOverrideKey(key) ? typography.styles[styleKey(key)] : typography[key];
+}
+
+// 같은 키끼리만 값을 옮기도록 키 타입으로 묶음
+function copyValue<T, K extends keyof T>(target: T, source: T, key: K): void {
+    target[key] = structuredClone(source[key]);
+}
+
+function copyField(target: TypographySettings, source: TypographySettings, key: PresetOverrideKey): void {
+    if (isStyleOverrideKey(key)) {
+        copyValue(target.styles, source.styles, styleKey(key));
+    } else {
+        copyValue(target, source, key);
+    }
+}
+
+// 연결된 프리셋 값 위에 사이트의 재정의 항목을 얹은 설정
+// 프리셋을 찾지 못하면(다른 기기에서 삭제된 직후 등) 사이트에 저장된 마지막 값을 그대로 사용
+export function resolvePresetLink(settings: SiteSettings, presets: StylePreset[]): SiteSettings {
+    const preset = settings.presetId ? presets.find(p => p.id === settings.presetId) : undefined;
+    if (!preset) return settings;
+
+    const overrides = settings.presetOverrides || [];
+    const source = normalizeTypography(preset);
+    const resolved: SiteSettings = { ...settings, styles: { ...settings.styles } };
+
+    for (const key of PRESET_OVERRIDE_KEYS) {
+        if (!overrides.includes(key)) {
+            copyField(resolved, source, key);
+        }
+    }
+    return resolved;
+}
+
+// 모든 사이트의 프리셋 연결 반영 (스토리지를 읽을 때마다 적용하므로 프리셋 수정이 바로 반영됨)
+export function resolvePresetLinks(storage: UserStorage): UserStorage {
+    const siteSettings: UserStorage['siteSettings'] = {};
+    for (const [pattern, settings] of Object.entries(storage.siteSettings)) {
+        siteSettings[pattern] = resolvePresetLink(settings, storage.presets);
+    }
+    return { ...storage, siteSettings };
+}
+
+// 프리셋과 값이 다른 항목 (사이트를 저장할 때 재정의 목록으로 기록)
+// 프리셋과 같은 값으로 되돌린 항목은 다시 프리셋을 따름
+export function findPresetOverrides(settings: TypographySettings, preset: StylePreset): PresetOverrideKey[] {
+    const site = normalizeTypography(settings);
+    const source = normalizeTypography(preset);
+    return PRESET_OVERRIDE_KEYS.filter(key => !isSameValue(getField(site, key), getField(source, key)));
+}
+
+// 사이트를 프리셋에 연결 (프리셋 값으로 바꾸고 재정의 없음)
+export function linkPreset(settings: SiteSettings, preset: StylePreset): SiteSettings {
+    return resolvePresetLink({ ...settings, presetId: preset.id, presetOverrides: [] }, [preset]);
+}
+
+// 연결 해제 (현재 값은 그대로 사이트 값으로 남김)
+export function unlinkPreset(settings: SiteSettings): SiteSettings {
+    const { presetId: _presetId, presetOverrides: _presetOverrides, ...rest } = settings;
+    return rest;
+}
+
+// 프리셋에 연결된 사이트 규칙
+export function findLinkedSites(storage: UserStorage, presetId: string): string[] {
+    return Object.entries(storage.siteSettings)
+        .filter(([, settings]) => settings.presetId === presetId)
+        .map(([pattern]) => pattern);
+}
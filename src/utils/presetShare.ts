@@ -0,0 +1,293 @@
+import {
+    StylePreset,
+    TypographySettings,
+    SiteStyles,
+    RoleStyles,
+    ColorSettings,
+    ReadingAids,
+    TypographyRole,
+    ColorTheme,
+    TextAlign,
+    DEFAULT_SITE_STYLES,
+    DEFAULT_ROLE_STYLES,
+    DEFAULT_COLOR_SETTINGS,
+    DEFAULT_READING_AIDS
+} from '../types/storage';
+import { FONT_SCRIPTS } from './fontStack';
+
+// 공유 코드 형식: "RFP<버전>." + base64url(deflate-raw(JSON))
+// 구조가 바뀌면 버전을 올리고 decodePresetCode에서 이전 버전을 변환
+export const PRESET_CODE_VERSION = 1;
+const PRESET_CODE_PREFIX = 'RFP';
+
+// 공유 링크에서 코드를 담는 해시 (옵션 페이지가 열리면 가져오기 입력란에 채움)
+export const PRESET_LINK_HASH = '#import-preset=';
+
+// 압축 해제 전 코드 길이 제한 (붙여넣은 내용이 비정상적으로 클 때)
+const MAX_CODE_LENGTH = 16 * 1024;
+
+// 코드에 담는 내용 (ID는 가져올 때 새로 생성)
+export interface SharedPreset {
+    name: string;
+    typography: TypographySettings;
+}
+
+// 프리셋 폰트 상태
+// - registered: 폰트 목록에 등록됨
+// - installed: 설치되어 있거나 웹 폰트로 있지만 폰트 목록에는 없음
+// - missing: 이 기기에서 찾을 수 없음
+// - unknown: 폰트 접근 권한이 없어 설치 여부를 알 수 없음
+export type SharedFontStatus = 'registered' | 'installed' | 'missing' | 'unknown';
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// ---------------------------------------------------------------------------
+// 검증
+// 공유 코드는 다른 사람이 만든 값이고 스타일 값 일부는 CSS에 그대로 들어가므로,
+// 허용된 형식의 값만 골라 담고 나머지는 기본값 사용
+
+const LENGTH_PATTERN = /^-?\d+(\.\d+)?px$/;
+const FONT_WEIGHT_PATTERN = /^(inherit|[1-9]00)$/;
+const HEX_COLOR_PATTERN = /^(#[0-9a-f]{3,8})?$/i;
+const TEXT_ALIGNS: TextAlign[] = ['inherit', 'start', 'justify'];
+const COLOR_THEMES: ColorTheme[] = ['original', 'custom', 'dark'];
+
+// 폰트 이름 (CSS에서는 따옴표로 감싸지만 제어 문자와 지나치게 긴 이름은 거부)
+function isFontName(value: unknown): value is string {
+    return typeof value === 'string' && value.length <= 200 && !/[\u0000-\u001f]/.test(value);
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+type NumberRange = [min: number, max: number];
+
+// 숫자 값 허용 범위 (StyleControls, RoleControls, ColorControls의 입력 범위와 동일)
+const STYLE_RANGES: Record<'lineHeight' | 'fontSizeScale' | 'maxWidth' | 'paragraphSpacing' | 'textIndent', NumberRange> = {
+    fontSizeScale: [0.8, 1.6],
+    lineHeight: [1, 3],
+    maxWidth: [40, 120],           // 0은 제한 없음
+    paragraphSpacing: [0, 3],
+    textIndent: [0, 4],
+};
+const ROLE_RANGES: Record<'lineHeight' | 'fontSizeScale', NumberRange> = {
+    fontSizeScale: [0.7, 1.6],
+    lineHeight: [1, 3],
+};
+const MIN_CONTRAST_RANGE: NumberRange = [0, 7];
+
+function clamp(value: number, [min, max]: NumberRange): number {
+    return Math.min(Math.max(value, min), max);
+}
+
+function pickStyles(raw: unknown): SiteStyles {
+    const value = isObject(raw) ? raw : {};
+    const styles = { ...DEFAULT_SITE_STYLES };
+
+    for (const key of Object.keys(STYLE_RANGES) as (keyof typeof STYLE_RANGES)[]) {
+        const number = value[key];
+        if (!isNumber(number)) continue;
+        styles[key] = key === 'maxWidth' && number <= 0 ? 0 : clamp(number, STYLE_RANGES[key]);
+    }
+    for (const key of ['letterSpacing', 'wordSpacing'] as const) {
+        if (typeof value[key] === 'string' && LENGTH_PATTERN.test(value[key] as string)) {
+            styles[key] = value[key] as string;
+        }
+    }
+    if (typeof value.fontWeight === 'string' && FONT_WEIGHT_PATTERN.test(value.fontWeight)) {
+        styles.fontWeight = value.fontWeight;
+    }
+    if (TEXT_ALIGNS.includes(value.textAlign as TextAlign)) {
+        styles.textAlign = value.textAlign as TextAlign;
+    }
+    return styles;
+}
+
+function pickRoles(raw: unknown): TypographySettings['roles'] {
+    const roles: TypographySettings['roles'] = {};
+    if (!isObject(raw)) return roles;
+
+    for (const role of Object.keys(DEFAULT_ROLE_STYLES) as TypographyRole[]) {
+        const value = raw[role];
+        if (!isObject(value)) continue;
+
+        const styles: RoleStyles = { ...DEFAULT_ROLE_STYLES[role] };
+        if (typeof value.enabled === 'boolean') styles.enabled = value.enabled;
+        if (isFontName(value.fontFamily)) styles.fontFamily = value.fontFamily;
+        if (typeof value.fontWeight === 'string' && FONT_WEIGHT_PATTERN.test(value.fontWeight)) {
+            styles.fontWeight = value.fontWeight;
+        }
+        for (const key of Object.keys(ROLE_RANGES) as (keyof typeof ROLE_RANGES)[]) {
+            const number = value[key];
+            if (isNumber(number)) styles[key] = clamp(number, ROLE_RANGES[key]);
+        }
+        roles[role] = styles;
+    }
+    return roles;
+}
+
+function pickColors(raw: unknown): ColorSettings {
+    const value = isObject(raw) ? raw : {};
+    const colors = { ...DEFAULT_COLOR_SETTINGS };
+
+    if (COLOR_THEMES.includes(value.theme as ColorTheme)) colors.theme = value.theme as ColorTheme;
+    for (const key of ['textColor', 'linkColor', 'backgroundColor'] as const) {
+        if (typeof value[key] === 'string' && HEX_COLOR_PATTERN.test(value[key] as string)) {
+            colors[key] = value[key] as string;
+        }
+    }
+    if (isNumber(value.minContrast)) colors.minContrast = clamp(value.minContrast, MIN_CONTRAST_RANGE);
+    return colors;
+}
+
+function pickAids(raw: unknown): ReadingAids {
+    const value = isObject(raw) ? raw : {};
+    const aids = { ...DEFAULT_READING_AIDS };
+
+    for (const key of Object.keys(DEFAULT_READING_AIDS) as (keyof ReadingAids)[]) {
+        if (typeof value[key] === 'boolean') aids[key] = value[key] as boolean;
+    }
+    return aids;
+}
+
+// 타이포그래피 값 검증 (설정 파일 가져오기에서도 사용, 올바르지 않은 폰트 이름은 빈 문자열)
+export function pickTypography(source: unknown): TypographySettings {
+    const raw = isObject(source) ? source : {};
+    const scriptFonts: TypographySettings['scriptFonts'] = {};
+    if (isObject(raw.scriptFonts)) {
+        for (const script of FONT_SCRIPTS) {
+            const font = raw.scriptFonts[script];
+            if (isFontName(font) && font) scriptFonts[script] = font;
+        }
+    }
+
+    return {
+        fontFamily: isFontName(raw.fontFamily) ? raw.fontFamily : '',
+        fallbackFonts: Array.isArray(raw.fallbackFonts) ? raw.fallbackFonts.filter(isFontName).filter(Boolean) : [],
+        scriptFonts,
+        styles: pickStyles(raw.styles),
+        roles: pickRoles(raw.roles),
+        colors: pickColors(raw.colors),
+        aids: pickAids(raw.aids),
+    };
+}
+
+// 코드에서 꺼낸 값 검증 (잘못된 경우 사용자에게 보여줄 메시지로 예외 발생)
+function parseSharedPreset(raw: unknown): SharedPreset {
+    if (!isObject(raw) || !isObject(raw.t)) {
+        throw new Error('프리셋 정보가 없습니다.');
+    }
+
+    const typography = pickTypography(raw.t);
+    if (!typography.fontFamily) {
+        throw new Error('프리셋의 폰트 정보가 올바르지 않습니다.');
+    }
+
+    return {
+        name: typeof raw.n === 'string' && raw.n.trim() ? raw.n.trim().slice(0, 100) : '공유받은 프리셋',
+        typography,
+    };
+}
+
+// ---------------------------------------------------------------------------
+
+// 프리셋을 공유 코드로 변환
+export async function encodePresetCode(preset: StylePreset): Promise<string> {
+    const { id: _id, name, ...typography } = preset;
+    const json = JSON.stringify({ n: name, t: typography });
+    const compressed = await pipeBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+    return `${PRESET_CODE_PREFIX}${PRESET_CODE_VERSION}.${toBase64Url(compressed)}`;
+}
+
+// 공유 코드로 옵션 페이지의 가져오기를 여는 확장 프로그램 링크
+// (확장 프로그램이 설치된 브라우저에서만 열림)
+export function createPresetLink(code: string): string {
+    const optionsPage = chrome.runtime.getManifest().options_page || 'src/options/index.html';
+    return chrome.runtime.getURL(optionsPage) + PRESET_LINK_HASH + code;
+}
+
+// 붙여넣은 코드 또는 링크에서 코드만 꺼내기 (잘못된 경우 사용자에게 보여줄 메시지로 예외 발생)
+export function extractPresetCode(input: string): string {
+    const trimmed = input.trim();
+    const hashIndex = trimmed.indexOf(PRESET_LINK_HASH);
+    const code = hashIndex === -1 ? trimmed : trimmed.slice(hashIndex + PRESET_LINK_HASH.length);
+    try {
+        return decodeURIComponent(code).replace(/\s+/g, '');
+    } catch {
+        // 잘못된 % 인코딩 (URIError)
+        throw new Error('Readable 프리셋 코드가 아닙니다.');
+    }
+}
+
+// 공유 코드 해석 (잘못된 경우 사용자에게 보여줄 메시지로 예외 발생)
+export async function decodePresetCode(input: string): Promise<SharedPreset> {
+    const code = extractPresetCode(input);
+    const match = code.match(new RegExp(`^${PRESET_CODE_PREFIX}(\\d+)\\.([A-Za-z0-9_-]+)$`));
+    if (!match || code.length > MAX_CODE_LENGTH) {
+        throw new Error('Readable 프리셋 코드가 아닙니다.');
+    }
+
+    const version = Number(match[1]);
+    if (version > PRESET_CODE_VERSION) {
+        throw new Error('지원하지 않는 버전의 프리셋 코드입니다. 확장 프로그램을 업데이트해주세요.');
+    }
+
+    let raw: unknown;
+    try {
+        const bytes = await pipeBytes(fromBase64Url(match[2]), new DecompressionStream('deflate-raw'));
+        raw = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+        throw new Error('프리셋 코드가 손상되었습니다. 코드 전체를 복사했는지 확인해주세요.');
+    }
+
+    return parseSharedPreset(raw);
+}
+
+// 프리셋이 사용하는 폰트 (본문, 대체, 문자 체계별, 역할별 순서, 중복 제거)
+export function collectPresetFonts(typography: TypographySettings): string[] {
+    const fonts = [
+        typography.fontFamily,
+        ...(typography.fallbackFonts || []),
+        ...Object.values(typography.scriptFonts || {}),
+        ...Object.values(typography.roles || {}).map(role => role?.fontFamily),
+    ];
+    return [...new Set(fonts.filter((font): font is string => !!font))];
+}
+
+// 폰트별 상태 확인 (installedFonts가 null이면 설치 여부를 알 수 없음)
+export function checkPresetFonts(
+    typography: TypographySettings,
+    favoriteFonts: string[],
+    installedFonts: string[] | null
+): { family: string; status: SharedFontStatus }[] {
+    return collectPresetFonts(typography).map(family => {
+        let status: SharedFontStatus;
+        if (favoriteFonts.includes(family)) {
+            status = 'registered';
+        } else if (installedFonts === null) {
+            status = 'unknown';
+        } else {
+            status = installedFonts.includes(family) ? 'installed' : 'missing';
+        }
+        return { family, status };
+    });
+}
@@ -0,0 +1,89 @@
+// CSS 선택자 유효성 검사 (잘못된 선택자가 스타일시트 전체를 깨뜨리지 않도록)
+// querySelector는 입력 끝에서 닫히지 않은 괄호/따옴표(예: [class*="x")를 자동으로 닫아 통과시키지만,
+// 스타일시트 안에서는 뒤따르는 규칙까지 삼키므로 실제 스타일시트로 파싱해 뒤 규칙이 남는지 확인
+// (단독 규칙으로 유효한지, :is()로 감싸도 닫히는지, 마지막 규칙이 그대로인지)
+export function isValidSelector(selector: string): boolean {
+    const trimmed = selector.trim();
+    // 중괄호나 세미콜론은 규칙 밖으로 빠져나갈 수 있으므로 거부
+    if (!trimmed || /[{};]/.test(trimmed)) return false;
+
+    try {
+        const sheet = new CSSStyleSheet();
+        sheet.replaceSync(`${trimmed} {} :is(${trimmed}) {} a {}`);
+        return sheet.cssRules.length === 3;
+    } catch {
+        return false;
+    }
+}
+
+// 유효한 선택자만 남기기
+export function filterValidSelectors(selectors: string[] | undefined): string[] {
+    return (selectors || []).map(s => s.trim()).filter(isValidSelector);
+}
+
+// 빌드 도구가 만든 해시 클래스/ID처럼 바뀌기 쉬운 이름인지 확인
+function isUnstableName(name: string): boolean {
+    return /\d{3,}/.test(name)
+        || /[a-f0-9]{6,}/i.test(name.replace(/^[a-z]+[-_]/i, ''))
+        || /^(css|sc|jsx|svelte|emotion)-/i.test(name)
+        || name.length > 40;
+}
+
+function isUnique(selector: string, root: Document): boolean {
+    try {
+        return root.querySelectorAll(selector).length === 1;
+    } catch {
+        return false;
+    }
+}
+
+// 요소 하나에 대한 선택자 조각 (태그 + 안정적인 클래스 + 필요하면 nth-of-type)
+function describeElement(element: Element): string {
+    const tag = element.tagName.toLowerCase();
+
+    if (element.id && !isUnstableName(element.id)) {
+        return `#${CSS.escape(element.id)}`;
+    }
+
+    const classes = [...element.classList]
+        .filter(name => !isUnstableName(name))
+        .slice(0, 2)
+        .map(name => `.${CSS.escape(name)}`)
+        .join('');
+
+    let part = `${tag}${classes}`;
+
+    const parent = element.parentElement;
+    if (parent) {
+        const sameType = [...parent.children].filter(child => child.tagName === element.tagName);
+        const matchingSiblings = classes
+            ? sameType.filter(child => child.matches(part))
+            : sameType;
+        if (matchingSiblings.length > 1) {
+            part += `:nth-of-type(${sameType.indexOf(element) + 1})`;
+        }
+    }
+
+    return part;
+}
+
+// 요소를 가리키는 짧고 안정적인 선택자 생성 (선택기, 컨텍스트 메뉴용)
+export function generateSelector(element: Element, maxDepth = 5): string {
+    const root = element.ownerDocument;
+    const parts: string[] = [];
+    let current: Element | null = element;
+
+    while (current && current !== root.documentElement && parts.length < maxDepth) {
+        const part = describeElement(current);
+        parts.unshift(part);
+
+        const selector = parts.join(' > ');
+        if (part.startsWith('#') || isUnique(selector, root)) {
+            return selector;
+        }
+
+        current = current.parentElement;
+    }
+
+    return parts.join(' > ');
+}
@@ -0,0 +1,248 @@
+import { SiteSettings, UserStorage } from '../types/storage';
+
+// 사이트 규칙 종류
+// - host: 정확한 호스트 (예: "example.com", "example.com/docs/*")
+// - wildcard: 하위 도메인 포함 (예: "*.example.com", "*.example.com/docs/*")
+// - regex: URL 전체에 대한 정규식 (예: "/^https:\/\/.*\.example\.com\//i")
+export type SiteRuleKind = 'host' | 'wildcard' | 'regex';
+
+export interface ParsedSiteRule {
+    pattern: string;
+    kind: SiteRuleKind;
+    host: string;              // "*." 를 제외한 호스트 (regex는 빈 문자열)
+    path: string | null;       // 경로 조건 (끝의 "*" 제외), 없으면 모든 경로
+    pathIsPrefix: boolean;     // 경로가 "*"로 끝나는 경우 prefix 매칭
+    regex: RegExp | null;
+}
+
+export interface SiteRuleMatch {
+    pattern: string;
+    kind: SiteRuleKind;
+    settings: SiteSettings;
+}
+
+// 최종 적용 설정 (전역 → 사이트 순으로 해석)
+export interface ResolvedSettings {
+    source: 'site' | 'global';
+    match: SiteRuleMatch | null;   // source가 'site'인 경우 일치한 규칙
+    settings: SiteSettings;
+}
+
+// 정규식 규칙 파싱 ("/source/flags")
+function parseRegexRule(pattern: string): RegExp | null {
+    const lastSlash = pattern.lastIndexOf('/');
+    if (lastSlash <= 0) return null;
+
+    const source = pattern.slice(1, lastSlash);
+    const flags = pattern.slice(lastSlash + 1);
+    if (!source || !/^[imsu]*$/.test(flags)) return null;
+
+    try {
+        return new RegExp(source, flags);
+    } catch {
+        return null;
+    }
+}
+
+// 규칙 문자열 파싱 (잘못된 규칙이면 null)
+export function parseSiteRule(pattern: string): ParsedSiteRule | null {
+    const trimmed = pattern.trim();
+    if (!trimmed) return null;
+
+    if (trimmed.startsWith('/')) {
+        const regex = parseRegexRule(trimmed);
+        if (!regex) return null;
+        return { pattern, kind: 'regex', host: '', path: null, pathIsPrefix: false, regex };
+    }
+
+    const slashIndex = trimmed.indexOf('/');
+    const hostPart = (slashIndex === -1 ? trimmed : trimmed.slice(0, slashIndex)).toLowerCase();
+    const pathPart = slashIndex === -1 ? null : trimmed.slice(slashIndex);
+
+    const isWildcard = hostPart.startsWith('*.');
+    const host = isWildcard ? hostPart.slice(2) : hostPart;
+    // URL의 hostname과 비교하므로 포트는 쓸 수 없음 (":"는 대괄호로 감싼 IPv6 주소에서만 허용)
+    if (!/^([a-z0-9.\-]+|\[[0-9a-f:.]+\])$/.test(host)) return null;
+
+    let path: string | null = null;
+    let pathIsPrefix = false;
+    if (pathPart !== null && pathPart !== '/*') {
+        pathIsPrefix = pathPart.endsWith('*');
+        path = pathIsPrefix ? pathPart.slice(0, -1) : pathPart;
+        // 중간에 "*"가 있는 경로는 지원하지 않음
+        if (path.includes('*')) return null;
+    }
+
+    return {
+        pattern,
+        kind: isWildcard ? 'wildcard' : 'host',
+        host,
+        path,
+        pathIsPrefix,
+        regex: null,
+    };
+}
+
+export function isValidSitePattern(pattern: string): boolean {
+    return parseSiteRule(pattern) !== null;
+}
+
+// 경로 비교 (끝의 "/" 차이는 무시)
+function matchesPath(rule: ParsedSiteRule, pathname: string): boolean {
+    if (rule.path === null) return true;
+
+    if (rule.pathIsPrefix) {
+        const base = rule.path.endsWith('/') ? rule.path.slice(0, -1) : rule.path;
+        return pathname === base || pathname.startsWith(rule.path);
+    }
+
+    const normalize = (p: string) => (p.length > 1 && p.endsWith('/') ? p.slice(0, -1) : p);
+    return normalize(pathname) === normalize(rule.path);
+}
+
+// 규칙이 URL과 일치하는지 확인
+export function matchesSiteRule(rule: ParsedSiteRule, url: URL): boolean {
+    if (rule.kind === 'regex') {
+        return rule.regex!.test(url.href);
+    }
+
+    const hostname = url.hostname.toLowerCase();
+    const hostMatches = rule.kind === 'wildcard'
+        ? hostname === rule.host || hostname.endsWith(`.${rule.host}`)
+        : hostname === rule.host;
+
+    return hostMatches && matchesPath(rule, url.pathname);
+}
+
+// 우선순위 점수 (앞의 항목부터 비교, 큰 값이 우선)
+// 1. 규칙 종류: 정확한 호스트 > 와일드카드 > 정규식
+// 2. 호스트 길이: 더 긴(구체적인) 와일드카드가 우선
+// 3. 경로 길이: 더 긴 경로 조건이 우선
+// 4. 같은 경로라면 정확한 경로가 prefix("*")보다 우선
+function ruleSpecificity(rule: ParsedSiteRule): number[] {
+    const kindRank = { host: 2, wildcard: 1, regex: 0 }[rule.kind];
+    return [
+        kindRank,
+        rule.host.length,
+        rule.path?.length ?? -1,
+        rule.pathIsPrefix ? 0 : 1,
+    ];
+}
+
+export function compareSiteRules(a: ParsedSiteRule, b: ParsedSiteRule): number {
+    const scoreA = ruleSpecificity(a);
+    const scoreB = ruleSpecificity(b);
+    for (let i = 0; i < scoreA.length; i++) {
+        if (scoreA[i] !== scoreB[i]) return scoreB[i] - scoreA[i];
+    }
+    // 동점이면 규칙 문자열 순서로 결정 (결과가 항상 같도록)
+    return a.pattern.localeCompare(b.pattern);
+}
+
+// URL에 가장 구체적으로 일치하는 규칙 찾기
+export function findMatchingRule(
+    url: string,
+    siteSettings: { [pattern: string]: SiteSettings }
+): SiteRuleMatch | null {
+    let urlObj: URL;
+    try {
+        urlObj = new URL(url);
+    } catch {
+        return null;
+    }
+
+    const best = findBestRule(urlObj, Object.keys(siteSettings));
+    return best ? { pattern: best.pattern, kind: best.kind, settings: siteSettings[best.pattern] } : null;
+}
+
+// 규칙 목록 중 URL과 일치하는 가장 구체적인 규칙
+export function findBestRule(url: URL, patterns: string[]): ParsedSiteRule | null {
+    const matched = patterns
+        .map(parseSiteRule)
+        .filter((rule): rule is ParsedSiteRule => rule !== null && matchesSiteRule(rule, url))
+        .sort(compareSiteRules);
+
+    return matched[0] ?? null;
+}
+
+// 전역 설정 제외 목록에서 URL과 일치하는 항목
+export function findBlocklistEntries(url: string, blocklist: string[]): string[] {
+    let urlObj: URL;
+    try {
+        urlObj = new URL(url);
+    } catch {
+        return [];
+    }
+
+    return blocklist.filter(pattern => {
+        const rule = parseSiteRule(pattern);
+        return rule !== null && matchesSiteRule(rule, urlObj);
+    });
+}
+
+// 전역 설정 제외 목록에 포함된 URL인지 확인
+export function isGloballyBlocked(url: string, blocklist: string[]): boolean {
+    return findBlocklistEntries(url, blocklist).length > 0;
+}
+
+// URL에 적용할 설정 결정
+// 사이트 규칙이 있으면 (비활성 상태여도) 전역 설정보다 우선하고,
+// 없으면 제외 목록에 없는 경우에만 전역 설정을 사용
+export function resolveSettings(
+    url: string,
+    storage: Pick<UserStorage, 'siteSettings' | 'globalSettings' | 'globalBlocklist'>
+): ResolvedSettings | null {
+    const match = findMatchingRule(url, storage.siteSettings);
+    if (match) {
+        return { source: 'site', match, settings: match.settings };
+    }
+
+    const { globalSettings, globalBlocklist } = storage;
+    if (globalSettings && !isGloballyBlocked(url, globalBlocklist)) {
+        return { source: 'global', match: null, settings: globalSettings };
+    }
+
+    return null;
+}
+
+// 현재 URL로 만들 수 있는 규칙 후보 (팝업 등록용)
+export function suggestSitePatterns(url: string): string[] {
+    let urlObj: URL;
+    try {
+        urlObj = new URL(url);
+    } catch {
+        return [];
+    }
+
+    const hostname = urlObj.hostname;
+    const suggestions = [hostname];
+
+    // 상위 도메인 와일드카드 (www. 는 제거)
+    const labels = hostname.split('.');
+    if (labels.length >= 2 && !/^\d+$/.test(labels[labels.length - 1])) {
+        const base = labels[0] === 'www' && labels.length > 2
+            ? labels.slice(1).join('.')
+            : hostname;
+        suggestions.push(`*.${base}`);
+    }
+
+    // 첫 번째 경로 구간
+    const firstSegment = urlObj.pathname.split('/').filter(Boolean)[0];
+    if (firstSegment) {
+        suggestions.push(`${hostname}/${firstSegment}/*`);
+    }
+
+    return suggestions;
+}
+
+// 규칙 종류 라벨
+export function describeSiteRuleKind(kind: SiteRuleKind): string {
+    switch (kind) {
+        case 'host':
+            return '도메인';
+        case 'wildcard':
+            return '와일드카드';
+        case 'regex':
+            return '정규식';
+    }
+}
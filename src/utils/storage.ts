@@ -2,45 +2,258 @@ import {
     UserStorage,
     SiteSettings,
     StylePreset,
+    TypographySettings,
+    StorageMutation,
+    BackgroundMessage,
+    PageSettings,
+    SiteSelectorKey,
+    BulkSiteChange,
+    SettingsChange,
+    SettingsHistory,
+    TrashItem,
+    SettingsSnapshot,
+    WebFont,
     DEFAULT_STORAGE,
     DEFAULT_SITE_STYLES
 } from '../types/storage';
+import { findMatchingRule, resolveSettings, SiteRuleMatch } from './siteMatcher';
+import {
+    normalizeStorage,
+    normalizeSiteSettings,
+    normalizePreset,
+    applyMigrations,
+    RawStorage,
+    SITE_KEY_PREFIX
+} from './migrations';
+import {
+    isSameValue,
+    isHistoryMutation,
+    diffStorage,
+    matchesStorage,
+    pushHistoryEntry,
+    describeMutation,
+    HistoryMutation,
+    RecordedMutation,
+    MAX_TRASH_ITEMS,
+    MAX_SNAPSHOTS
+} from './history';
+import { resolvePresetLinks, findPresetOverrides, linkPreset, unlinkPreset } from './presetLink';
+import { referencedFontFamilies } from './fontStack';
 
-// 스토리지 전체 조회
-export async function getStorage(): Promise<UserStorage> {
-    const result = await chrome.storage.sync.get(DEFAULT_STORAGE);
-    // presets 필드가 없는 경우 기본값 제공 (마이그레이션)
-    return {
-        ...DEFAULT_STORAGE,
-        ...result,
-        presets: result.presets || [],
-    } as UserStorage;
+// chrome.storage.sync 용량 제한
+const SYNC_QUOTA_BYTES = 102400;
+const SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+const SYNC_MAX_ITEMS = 512;
+
+// sync에 저장하지 못한 항목을 보관하는 local 키 (이 기기에서만 유지됨)
+const OVERFLOW_KEY = 'syncOverflow';
+
+// 설정 변경 기록 / 휴지통 / 스냅샷을 보관하는 local 키 (동기화하지 않음)
+const HISTORY_KEY = 'settingsHistory';
+const TRASH_KEY = 'settingsTrash';
+const SNAPSHOTS_KEY = 'settingsSnapshots';
+
+// 웹 폰트를 보관하는 local 키 (sync 용량 제한 때문)
+const WEB_FONTS_KEY = 'webFonts';
+
+export interface StorageUsage {
+    bytesInUse: number;
+    quotaBytes: number;
+    itemCount: number;
+    maxItems: number;
+    largestItemBytes: number;
+    quotaBytesPerItem: number;
+    overflowKeys: string[];    // 용량 부족으로 local에 저장된 항목
 }
 
-// 스토리지 업데이트
-export async function setStorage(data: Partial<UserStorage>): Promise<void> {
-    await chrome.storage.sync.set(data);
+function siteKey(pattern: string): string {
+    return SITE_KEY_PREFIX + pattern;
 }
 
-// 즐겨찾기 폰트 추가
-export async function addFavoriteFont(fontName: string): Promise<boolean> {
-    const storage = await getStorage();
-    const trimmedName = fontName.trim();
+// sync 용량 계산 방식과 동일하게 키 + JSON 값 길이로 계산
+function itemBytes(key: string, value: unknown): number {
+    return new TextEncoder().encode(key + JSON.stringify(value)).length;
+}
+
+async function getOverflow(): Promise<RawStorage> {
+    const result = await chrome.storage.local.get({ [OVERFLOW_KEY]: {} });
+    return result[OVERFLOW_KEY] as RawStorage;
+}
 
-    if (!trimmedName || storage.favoriteFonts.includes(trimmedName)) {
-        return false; // 중복 또는 빈 문자열
+// sync 항목과 local로 넘어간 항목을 합쳐서 조회 (local 쪽이 최신)
+async function readStorageItems(): Promise<RawStorage> {
+    const [syncItems, overflow] = await Promise.all([chrome.storage.sync.get(null), getOverflow()]);
+    return { ...syncItems, ...overflow };
+}
+
+// 사이트별 키를 siteSettings 하나로 모으기
+function assembleStorage(items: RawStorage): RawStorage {
+    const { siteSettings: legacySites, ...rest } = items;
+    const siteSettings: RawStorage = { ...(legacySites || {}) };
+
+    for (const [key, value] of Object.entries(rest)) {
+        if (key.startsWith(SITE_KEY_PREFIX)) {
+            siteSettings[key.slice(SITE_KEY_PREFIX.length)] = value;
+            delete rest[key];
+        }
     }
 
-    storage.favoriteFonts.push(trimmedName);
-    await setStorage({ favoriteFonts: storage.favoriteFonts });
-    return true;
+    return { ...DEFAULT_STORAGE, ...rest, siteSettings };
 }
 
-// 즐겨찾기 폰트 삭제
-export async function removeFavoriteFont(fontName: string): Promise<void> {
-    const storage = await getStorage();
-    storage.favoriteFonts = storage.favoriteFonts.filter(f => f !== fontName);
-    await setStorage({ favoriteFonts: storage.favoriteFonts });
+// 항목 저장 (sync에 들어가지 않으면 local로 대체 저장)
+async function writeItems(items: RawStorage): Promise<void> {
+    const fitting: RawStorage = {};
+    const overflowed: RawStorage = {};
+
+    for (const [key, value] of Object.entries(items)) {
+        if (itemBytes(key, value) > SYNC_QUOTA_BYTES_PER_ITEM) {
+            overflowed[key] = value;
+        } else {
+            fitting[key] = value;
+        }
+    }
+
+    if (Object.keys(fitting).length > 0) {
+        try {
+            await chrome.storage.sync.set(fitting);
+        } catch (error) {
+            // 전체 용량, 항목 수, 쓰기 횟수 제한 초과
+            console.warn('[Readable] Sync storage is full, saving locally:', error);
+            Object.assign(overflowed, fitting);
+        }
+    }
+
+    const overflow = await getOverflow();
+    const nextOverflow: RawStorage = { ...overflow, ...overflowed };
+    for (const key of Object.keys(items)) {
+        if (!(key in overflowed)) delete nextOverflow[key];
+    }
+
+    const overflowedKeys = Object.keys(overflowed);
+    if (overflowedKeys.length > 0) {
+        await chrome.storage.sync.remove(overflowedKeys);
+    }
+    if (JSON.stringify(nextOverflow) !== JSON.stringify(overflow)) {
+        await chrome.storage.local.set({ [OVERFLOW_KEY]: nextOverflow });
+    }
+}
+
+// 항목 삭제 (sync / local 양쪽)
+async function removeItems(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    await chrome.storage.sync.remove(keys);
+
+    const overflow = await getOverflow();
+    if (keys.some(key => key in overflow)) {
+        const nextOverflow = { ...overflow };
+        keys.forEach(key => delete nextOverflow[key]);
+        await chrome.storage.local.set({ [OVERFLOW_KEY]: nextOverflow });
+    }
+}
+
+// 스토리지 전체 읽기 (이전 버전 구조라도 현재 구조로 정규화해서 반환)
+// 프리셋에 연결된 사이트는 현재 프리셋 값으로 채워서 반환
+async function readStorage(): Promise<UserStorage> {
+    return resolvePresetLinks(normalizeStorage(assembleStorage(await readStorageItems())));
+}
+
+// 스토리지 쓰기 (siteSettings를 넘기면 사이트 목록 전체를 교체)
+async function writeStorage(data: Partial<UserStorage>): Promise<void> {
+    const { siteSettings, ...rest } = data;
+    const items: RawStorage = { ...rest };
+    let staleKeys: string[] = [];
+
+    if (siteSettings) {
+        for (const [pattern, settings] of Object.entries(siteSettings)) {
+            items[siteKey(pattern)] = settings;
+        }
+        const currentKeys = Object.keys(await readStorageItems());
+        staleKeys = currentKeys.filter(key =>
+            key === 'siteSettings' || (key.startsWith(SITE_KEY_PREFIX) && !(key in items)));
+    }
+
+    await writeItems(items);
+    await removeItems(staleKeys);
+}
+
+// 설정 관련 변경인지 확인 (storage.onChanged용)
+// keys를 넘기면 해당 필드의 변경만 확인 (local로 넘어간 항목은 어떤 필드인지 구분하지 않음)
+export function isSettingsChange(
+    changes: { [key: string]: chrome.storage.StorageChange },
+    namespace: string,
+    keys: (keyof UserStorage)[] = Object.keys(DEFAULT_STORAGE) as (keyof UserStorage)[]
+): boolean {
+    if (namespace === 'local') {
+        return OVERFLOW_KEY in changes;
+    }
+    return namespace === 'sync' && Object.keys(changes).some(key =>
+        key.startsWith(SITE_KEY_PREFIX) ? keys.includes('siteSettings') : keys.includes(key as keyof UserStorage));
+}
+
+// 변경 기록 / 휴지통 / 스냅샷 변경인지 확인 (storage.onChanged용)
+export function isHistoryChange(
+    changes: { [key: string]: chrome.storage.StorageChange },
+    namespace: string
+): boolean {
+    return namespace === 'local' && [HISTORY_KEY, TRASH_KEY, SNAPSHOTS_KEY].some(key => key in changes);
+}
+
+// 되돌리기 / 다시 실행 목록
+export async function getSettingsHistory(): Promise<SettingsHistory> {
+    const result = await chrome.storage.local.get({ [HISTORY_KEY]: { undo: [], redo: [] } });
+    return result[HISTORY_KEY] as SettingsHistory;
+}
+
+// 휴지통 (오래된 순)
+export async function getTrash(): Promise<TrashItem[]> {
+    const result = await chrome.storage.local.get({ [TRASH_KEY]: [] });
+    return result[TRASH_KEY] as TrashItem[];
+}
+
+// 저장한 스냅샷 (오래된 순)
+export async function getSnapshots(): Promise<SettingsSnapshot[]> {
+    const result = await chrome.storage.local.get({ [SNAPSHOTS_KEY]: [] });
+    return result[SNAPSHOTS_KEY] as SettingsSnapshot[];
+}
+
+// 웹 폰트 목록 조회
+export async function getWebFonts(): Promise<WebFont[]> {
+    const result = await chrome.storage.local.get({ [WEB_FONTS_KEY]: [] });
+    return result[WEB_FONTS_KEY] as WebFont[];
+}
+
+// 스토리지 변경 이벤트에서 웹 폰트 변경 여부 확인
+export function isWebFontsChange(
+    changes: { [key: string]: chrome.storage.StorageChange },
+    namespace: string
+): boolean {
+    return namespace === 'local' && !!changes[WEB_FONTS_KEY];
+}
+
+// sync 용량 사용 현황
+export async function getStorageUsage(): Promise<StorageUsage> {
+    const [syncItems, overflow, bytesInUse] = await Promise.all([
+        chrome.storage.sync.get(null),
+        getOverflow(),
+        chrome.storage.sync.getBytesInUse(null),
+    ]);
+
+    return {
+        bytesInUse,
+        quotaBytes: SYNC_QUOTA_BYTES,
+        itemCount: Object.keys(syncItems).length,
+        maxItems: SYNC_MAX_ITEMS,
+        largestItemBytes: Math.max(0, ...Object.entries(syncItems).map(([key, value]) => itemBytes(key, value))),
+        quotaBytesPerItem: SYNC_QUOTA_BYTES_PER_ITEM,
+        overflowKeys: Object.keys(overflow),
+    };
+}
+
+// 저장된 키를 사용자에게 보여줄 이름으로 변환
+export function describeStorageKey(key: string): string {
+    return key.startsWith(SITE_KEY_PREFIX) ? key.slice(SITE_KEY_PREFIX.length) : key;
 }
 
 // 사이트 설정 조회
@@ -49,29 +262,552 @@ export async function getSiteSettings(domain: string): Promise<SiteSettings | nu
     return storage.siteSettings[domain] || null;
 }
 
+// URL에 일치하는 사이트 규칙 조회
+export async function findSiteRule(url: string): Promise<SiteRuleMatch | null> {
+    const storage = await getStorage();
+    return findMatchingRule(url, storage.siteSettings);
+}
+
+// 프리셋 재정의 목록은 저장할 때 다시 계산하므로 비교하지 않음
+function isSameSettings(current: SiteSettings | null, expected: SiteSettings | null): boolean {
+    const comparable = (settings: SiteSettings | null) =>
+        settings && { ...normalizeSiteSettings(settings), presetOverrides: undefined };
+    return isSameValue(comparable(current), comparable(expected));
+}
+
+// 프리셋 연결과 삭제 외의 일괄 변경
+function applyBulkChange(settings: SiteSettings, change: BulkSiteChange): SiteSettings {
+    switch (change.kind) {
+        case 'setActive':
+            return { ...settings, isActive: change.isActive };
+        case 'setFont':
+            return { ...settings, fontFamily: change.fontFamily };
+        default:
+            return settings;
+    }
+}
+
+// 프리셋에 연결된 사이트는 프리셋과 값이 다른 항목을 재정의로 기록 (프리셋이 없어졌으면 연결 해제)
+function recordPresetOverrides(settings: SiteSettings, presets: StylePreset[]): SiteSettings {
+    if (!settings.presetId) return settings;
+
+    const preset = presets.find(p => p.id === settings.presetId);
+    return preset
+        ? { ...settings, presetOverrides: findPresetOverrides(settings, preset) }
+        : unlinkPreset(settings);
+}
+
+// 변경 요청 하나를 읽기-수정-쓰기로 적용 (반드시 큐 안에서 호출)
+// 반환값이 false면 중복/대상 없음/충돌로 적용하지 않음
+async function applyMutation(mutation: RecordedMutation, storage: UserStorage): Promise<boolean> {
+    switch (mutation.type) {
+        case 'addFavoriteFont': {
+            const font = mutation.font.trim();
+            if (!font || storage.favoriteFonts.includes(font)) {
+                return false; // 중복 또는 빈 문자열
+            }
+            await writeStorage({ favoriteFonts: [...storage.favoriteFonts, font] });
+            return true;
+        }
+        case 'removeFavoriteFont':
+            await writeStorage({ favoriteFonts: storage.favoriteFonts.filter(f => f !== mutation.font) });
+            return true;
+        case 'setSiteSettings': {
+            const current = storage.siteSettings[mutation.pattern] || null;
+            if (mutation.expected !== undefined && !isSameSettings(current, mutation.expected)) {
+                return false;
+            }
+            await writeItems({ [siteKey(mutation.pattern)]: recordPresetOverrides(mutation.settings, storage.presets) });
+            return true;
+        }
+        case 'removeSite':
+            await removeItems([siteKey(mutation.pattern)]);
+            return true;
+        case 'addSiteSelector': {
+            const settings = storage.siteSettings[mutation.pattern];
+            if (!settings) return false;
+
+            const selectors = settings[mutation.key] || [];
+            if (selectors.includes(mutation.selector)) return false;
+
+            await writeItems({
+                [siteKey(mutation.pattern)]: { ...settings, [mutation.key]: [...selectors, mutation.selector] }
+            });
+            return true;
+        }
+        case 'updateSites': {
+            const patterns = mutation.patterns.filter(pattern => storage.siteSettings[pattern]);
+            if (patterns.length === 0) return false;
+
+            const change = mutation.change;
+            if (change.kind === 'remove') {
+                await removeItems(patterns.map(siteKey));
+                return true;
+            }
+
+            const preset = change.kind === 'linkPreset' ? storage.presets.find(p => p.id === change.presetId) : undefined;
+            if (change.kind === 'linkPreset' && !preset) return false;
+
+            const items: RawStorage = {};
+            for (const pattern of patterns) {
+                const settings = storage.siteSettings[pattern];
+                const updated = preset ? linkPreset(settings, preset) : applyBulkChange(settings, change);
+                items[siteKey(pattern)] = recordPresetOverrides(updated, storage.presets);
+            }
+            await writeItems(items);
+            return true;
+        }
+        case 'setGlobalSettings':
+            if (mutation.expected !== undefined && !isSameSettings(storage.globalSettings, mutation.expected)) {
+                return false;
+            }
+            await writeStorage({ globalSettings: mutation.settings });
+            return true;
+        case 'addGlobalBlocklistEntry': {
+            const pattern = mutation.pattern.trim();
+            if (!pattern || storage.globalBlocklist.includes(pattern)) {
+                return false;
+            }
+            await writeStorage({ globalBlocklist: [...storage.globalBlocklist, pattern] });
+            return true;
+        }
+        case 'removeGlobalBlocklistEntry':
+            await writeStorage({ globalBlocklist: storage.globalBlocklist.filter(p => p !== mutation.pattern) });
+            return true;
+        case 'setDefaultExclusions':
+            await writeStorage({ defaultExclusions: mutation.selectors });
+            return true;
+        case 'setPaused':
+            await writeStorage({ isPaused: mutation.paused });
+            return true;
+        case 'addPreset':
+            await writeStorage({ presets: [...storage.presets, mutation.preset] });
+            return true;
+        case 'removePreset': {
+            // 연결된 사이트는 프리셋의 마지막 값을 사이트 값으로 유지하고 연결만 해제
+            const linkedSites = Object.entries(storage.siteSettings)
+                .filter(([, settings]) => settings.presetId === mutation.presetId);
+            if (linkedSites.length > 0) {
+                await writeItems(Object.fromEntries(linkedSites.map(([pattern, settings]) =>
+                    [siteKey(pattern), unlinkPreset(settings)])));
+            }
+            await writeStorage({ presets: storage.presets.filter(p => p.id !== mutation.presetId) });
+            return true;
+        }
+        case 'updatePreset': {
+            const index = storage.presets.findIndex(p => p.id === mutation.presetId);
+            if (index === -1) return false;
+            if (mutation.expected && !isSameValue(storage.presets[index], normalizePreset(mutation.expected))) {
+                return false;
+            }
+
+            const presets = [...storage.presets];
+            presets[index] = {
+                ...presets[index],
+                name: mutation.name.trim(),
+                ...copyTypography(mutation.typography),
+            };
+            await writeStorage({ presets });
+            return true;
+        }
+        case 'replaceStorage':
+            await writeStorage(mutation.data);
+            return true;
+        case 'addWebFonts': {
+            const webFonts = await getWebFonts();
+            await chrome.storage.local.set({ [WEB_FONTS_KEY]: [...webFonts, ...mutation.webFonts] });
+
+            // 폰트 이름은 즐겨찾기 폰트에도 등록
+            const families = mutation.webFonts.map(font => font.family)
+                .filter(family => !storage.favoriteFonts.includes(family));
+            if (families.length > 0) {
+                await writeStorage({ favoriteFonts: [...new Set([...storage.favoriteFonts, ...families])] });
+            }
+            return true;
+        }
+        case 'removeWebFont': {
+            const webFonts = await getWebFonts();
+            const target = webFonts.find(font => font.id === mutation.id);
+            if (!target) return false;
+
+            const remaining = webFonts.filter(font => font.id !== mutation.id);
+            await chrome.storage.local.set({ [WEB_FONTS_KEY]: remaining });
+
+            // 같은 이름의 웹 폰트가 더 없으면 즐겨찾기에서도 삭제
+            if (!remaining.some(font => font.family === target.family)) {
+                await writeStorage({ favoriteFonts: storage.favoriteFonts.filter(f => f !== target.family) });
+            }
+            return true;
+        }
+        case 'importWebFonts': {
+            // 합칠 때는 같은 ID를 한 번만
+            const webFonts = await getWebFonts();
+            const currentIds = new Set(webFonts.map(font => font.id));
+            await chrome.storage.local.set({
+                [WEB_FONTS_KEY]: mutation.replace
+                    ? mutation.webFonts
+                    : [...webFonts, ...mutation.webFonts.filter(font => !currentIds.has(font.id))]
+            });
+            return true;
+        }
+        case 'restoreTrashItem': {
+            const trash = await getTrash();
+            const item = trash.find(i => i.id === mutation.itemId);
+            if (!item) return false;
+
+            // 그사이 같은 규칙 / 프리셋이 다시 만들어졌으면 덮어쓰지 않음
+            if (item.kind === 'site') {
+                if (storage.siteSettings[item.pattern]) return false;
+                await writeItems({ [siteKey(item.pattern)]: item.settings });
+            } else {
+                if (storage.presets.some(p => p.id === item.preset.id)) return false;
+                await writeStorage({ presets: [...storage.presets, normalizePreset(item.preset)] });
+            }
+            await chrome.storage.local.set({ [TRASH_KEY]: trash.filter(i => i.id !== item.id) });
+            return true;
+        }
+        case 'restoreSnapshot': {
+            const snapshot = (await getSnapshots()).find(s => s.id === mutation.snapshotId);
+            if (!snapshot) return false;
+
+            await writeStorage(normalizeStorage(snapshot.data));
+            return true;
+        }
+    }
+}
+
+// 기록의 한쪽 값 쓰기 (되돌리기는 before, 다시 실행은 after)
+async function writeChanges(changes: SettingsChange[], side: 'before' | 'after'): Promise<void> {
+    const items: RawStorage = {};
+    const removedKeys: string[] = [];
+
+    for (const change of changes) {
+        if (change.kind === 'site') {
+            const settings = change[side];
+            if (settings) {
+                items[siteKey(change.pattern)] = settings;
+            } else {
+                removedKeys.push(siteKey(change.pattern));
+            }
+        } else {
+            items[change.key] = change[side];
+        }
+    }
+
+    await writeItems(items);
+    await removeItems(removedKeys);
+}
+
+// 적용된 변경을 기록에 추가하고, 삭제한 사이트 규칙 / 프리셋은 휴지통에 보관
+async function recordMutation(mutation: RecordedMutation, before: UserStorage, after: UserStorage): Promise<void> {
+    const changes = diffStorage(before, after);
+    if (changes.length === 0) return;
+
+    const now = Date.now();
+    const history = pushHistoryEntry(await getSettingsHistory(), {
+        id: generateId(),
+        label: describeMutation(mutation, before),
+        timestamp: now,
+        changes,
+    });
+
+    const trashItems: TrashItem[] = [];
+    const removedPatterns = mutation.type === 'removeSite' ? [mutation.pattern]
+        : mutation.type === 'updateSites' && mutation.change.kind === 'remove' ? mutation.patterns
+        : [];
+    for (const pattern of removedPatterns) {
+        if (before.siteSettings[pattern]) {
+            trashItems.push({
+                id: generateId(),
+                deletedAt: now,
+                kind: 'site',
+                pattern,
+                settings: before.siteSettings[pattern],
+            });
+        }
+    }
+    if (mutation.type === 'removePreset') {
+        const preset = before.presets.find(p => p.id === mutation.presetId);
+        if (preset) {
+            trashItems.push({ id: generateId(), deletedAt: now, kind: 'preset', preset });
+        }
+    }
+
+    if (trashItems.length > 0) {
+        const trash = [...await getTrash(), ...trashItems].slice(-MAX_TRASH_ITEMS);
+        await chrome.storage.local.set({ [HISTORY_KEY]: history, [TRASH_KEY]: trash });
+    } else {
+        await chrome.storage.local.set({ [HISTORY_KEY]: history });
+    }
+}
+
+// 되돌리기 / 다시 실행 / 스냅샷 저장·삭제 (반드시 큐 안에서 호출)
+async function applyHistoryMutation(mutation: HistoryMutation): Promise<boolean> {
+    switch (mutation.type) {
+        case 'undo':
+        case 'redo': {
+            const history = await getSettingsHistory();
+            const isUndo = mutation.type === 'undo';
+            const [source, target] = isUndo ? [history.undo, history.redo] : [history.redo, history.undo];
+            const entry = source.pop();
+            if (!entry) return false;
+
+            // 기록 이후 다른 곳에서 같은 대상을 다시 바꿨으면 덮어쓰지 않고 그 기록은 버림
+            const storage = await readStorage();
+            if (!matchesStorage(storage, entry.changes, isUndo ? 'after' : 'before')) {
+                await chrome.storage.local.set({ [HISTORY_KEY]: history });
+                return false;
+            }
+
+            await writeChanges(entry.changes, isUndo ? 'before' : 'after');
+            target.push(entry);
+            await chrome.storage.local.set({ [HISTORY_KEY]: history });
+            return true;
+        }
+        case 'createSnapshot': {
+            const snapshots = await getSnapshots();
+            const name = mutation.name.trim();
+            if (!name || snapshots.length >= MAX_SNAPSHOTS) return false;
+
+            const snapshot: SettingsSnapshot = {
+                id: mutation.snapshotId,
+                name,
+                createdAt: Date.now(),
+                data: await readStorage(),
+            };
+            await chrome.storage.local.set({ [SNAPSHOTS_KEY]: [...snapshots, snapshot] });
+            return true;
+        }
+        case 'removeSnapshot': {
+            const snapshots = await getSnapshots();
+            await chrome.storage.local.set({ [SNAPSHOTS_KEY]: snapshots.filter(s => s.id !== mutation.snapshotId) });
+            return true;
+        }
+    }
+}
+
+// 이 컨텍스트의 변경 큐 (이전 작업이 끝난 뒤에 다음 작업 시작)
+let mutationQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = mutationQueue.then(task);
+    mutationQueue = result.catch(() => undefined);
+    return result;
+}
+
+// 이 컨텍스트의 큐에서 스토리지 읽기 (앞서 요청한 변경이 모두 반영된 값)
+export function readStorageQueued(): Promise<UserStorage> {
+    return enqueue(readStorage);
+}
+
+// 페이지 URL에 적용할 설정 계산 (topUrl은 iframe일 때 탭의 최상위 주소)
+// 웹 폰트는 용량이 클 수 있으므로 적용할 설정이 있을 때만 읽고, 설정이 쓰는 폰트만 전달
+export async function readPageSettingsQueued(url: string, topUrl?: string): Promise<PageSettings> {
+    const storage = await readStorageQueued();
+    const settings = storage.isPaused ? null : resolvePageSettings(url, topUrl, storage);
+
+    let webFonts: WebFont[] = [];
+    if (settings) {
+        const families = referencedFontFamilies(settings);
+        webFonts = (await getWebFonts()).filter(font => families.includes(font.family));
+    }
+
+    return { settings, defaultExclusions: storage.defaultExclusions, webFonts };
+}
+
+// iframe이면 최상위 페이지 설정의 framePolicy에 따라 최상위 설정 / 자체 규칙 / 미적용 결정
+function resolvePageSettings(url: string, topUrl: string | undefined, storage: UserStorage): SiteSettings | null {
+    const top = topUrl ? resolveSettings(topUrl, storage)?.settings : undefined;
+    const active = (settings: SiteSettings | undefined) => settings?.isActive ? settings : null;
+
+    switch (top?.framePolicy) {
+        case 'inherit':
+            return active(top);
+        case 'never':
+            return null;
+        default:
+            return active(resolveSettings(url, storage)?.settings);
+    }
+}
+
+// 변경 요청을 이 컨텍스트의 큐에 넣어 순서대로 적용 (백그라운드 서비스 워커에서 사용)
+// 설정을 바꾸는 요청은 적용 전후를 비교해 되돌리기 기록에 남김
+export function enqueueMutation(mutation: StorageMutation): Promise<boolean> {
+    if (isHistoryMutation(mutation)) {
+        return enqueue(() => applyHistoryMutation(mutation));
+    }
+    return enqueue(async () => {
+        const before = await readStorage();
+        const applied = await applyMutation(mutation, before);
+        if (applied) {
+            await recordMutation(mutation, before, await readStorage());
+        }
+        return applied;
+    });
+}
+
+// 저장된 설정을 현재 스키마로 마이그레이션 (설치/업데이트 시 1회, 변경 큐 안에서 실행)
+export function runMigrations(): Promise<void> {
+    return enqueue(async () => {
+        const data = await readStorageItems();
+        const migrated = applyMigrations({ ...DEFAULT_STORAGE, ...data });
+        if (!migrated) return;
+
+        await writeItems(migrated);
+        await removeItems(Object.keys(data).filter(key => !(key in migrated)));
+    });
+}
+
+// 백그라운드에 요청 (연결할 수 없으면 undefined, 백그라운드 자신이 보낸 경우 포함)
+async function sendToBackground<T>(message: BackgroundMessage): Promise<T | undefined> {
+    try {
+        return await chrome.runtime.sendMessage(message);
+    } catch {
+        return undefined; // 수신자 없음
+    }
+}
+
+// 스토리지 전체 조회 (백그라운드를 거쳐서 읽으므로 앞서 보낸 변경이 반영된 값)
+export async function getStorage(): Promise<UserStorage> {
+    const storage = await sendToBackground<UserStorage>({ action: "GET_STORAGE" });
+    return storage ?? readStorageQueued();
+}
+
+// 페이지 URL에 적용할 설정 조회 (콘텐츠 스크립트용)
+export async function getPageSettings(url: string): Promise<PageSettings> {
+    const pageSettings = await sendToBackground<PageSettings>({ action: "RESOLVE_PAGE_SETTINGS", url });
+    return pageSettings ?? readPageSettingsQueued(url);
+}
+
+// 페이지에 적용한 CSS를 다음 탐색의 첫 페인트용으로 백그라운드에 전달 (콘텐츠 스크립트용)
+export async function setEarlyStyles(url: string, css: string | null): Promise<void> {
+    await sendToBackground({ action: "SET_EARLY_STYLES", url, css });
+}
+
+// 변경 요청을 백그라운드 큐로 보내기
+// 팝업, 옵션, 탭이 동시에 수정해도 백그라운드에서 하나씩 적용되므로 서로 덮어쓰지 않음
+// 백그라운드에 연결할 수 없으면 현재 컨텍스트 큐에서 적용
+async function mutate(mutation: StorageMutation): Promise<boolean> {
+    const applied = await sendToBackground<boolean>({ action: "STORAGE_MUTATION", mutation });
+    return typeof applied === 'boolean' ? applied : enqueueMutation(mutation);
+}
+
+// 스토리지 업데이트 (설정 가져오기용, siteSettings를 넘기면 사이트 목록 전체를 교체)
+export async function setStorage(data: Partial<UserStorage>): Promise<void> {
+    await mutate({ type: 'replaceStorage', data });
+}
+
+// 웹 폰트 저장 (폰트 이름은 즐겨찾기 폰트에도 등록)
+export async function addWebFonts(webFonts: WebFont[]): Promise<void> {
+    await mutate({ type: 'addWebFonts', webFonts });
+}
+
+// 웹 폰트 삭제 (같은 이름의 웹 폰트가 더 없으면 즐겨찾기에서도 삭제)
+export async function removeWebFont(id: string): Promise<void> {
+    await mutate({ type: 'removeWebFont', id });
+}
+
+// 설정 파일의 웹 폰트 가져오기 (replace가 false면 현재 웹 폰트에 합침)
+export async function importWebFonts(webFonts: WebFont[], replace: boolean): Promise<void> {
+    await mutate({ type: 'importWebFonts', webFonts, replace });
+}
+
+// 즐겨찾기 폰트 추가
+export async function addFavoriteFont(fontName: string): Promise<boolean> {
+    return mutate({ type: 'addFavoriteFont', font: fontName });
+}
+
+// 즐겨찾기 폰트 삭제
+export async function removeFavoriteFont(fontName: string): Promise<void> {
+    await mutate({ type: 'removeFavoriteFont', font: fontName });
+}
+
 // 사이트 등록/업데이트
+// expected: 편집을 시작할 때의 설정 (다른 곳에서 바뀌었으면 저장하지 않고 false 반환)
 export async function setSiteSettings(
-    domain: string,
-    settings: SiteSettings
-): Promise<void> {
-    const storage = await getStorage();
-    storage.siteSettings[domain] = settings;
-    await setStorage({ siteSettings: storage.siteSettings });
+    pattern: string,
+    settings: SiteSettings,
+    expected?: SiteSettings | null
+): Promise<boolean> {
+    return mutate({ type: 'setSiteSettings', pattern, settings, expected });
 }
 
 // 사이트 삭제
-export async function removeSite(domain: string): Promise<void> {
-    const storage = await getStorage();
-    delete storage.siteSettings[domain];
-    await setStorage({ siteSettings: storage.siteSettings });
+export async function removeSite(pattern: string): Promise<void> {
+    await mutate({ type: 'removeSite', pattern });
+}
+
+// 사이트 설정의 선택자 목록에 선택자 추가 (선택기, 컨텍스트 메뉴용)
+export async function addSiteSelector(
+    pattern: string,
+    key: SiteSelectorKey,
+    selector: string
+): Promise<boolean> {
+    return mutate({ type: 'addSiteSelector', pattern, key, selector });
+}
+
+// 여러 사이트 규칙을 한 번에 변경 (하나의 되돌리기 기록, 삭제한 규칙은 휴지통에 보관)
+export async function updateSites(patterns: string[], change: BulkSiteChange): Promise<boolean> {
+    return mutate({ type: 'updateSites', patterns, change });
+}
+
+// 전역 설정 저장 (null이면 전역 설정 해제)
+export async function setGlobalSettings(
+    settings: SiteSettings | null,
+    expected?: SiteSettings | null
+): Promise<boolean> {
+    return mutate({ type: 'setGlobalSettings', settings, expected });
+}
+
+// 전역 설정 제외 목록에 추가
+export async function addGlobalBlocklistEntry(pattern: string): Promise<boolean> {
+    return mutate({ type: 'addGlobalBlocklistEntry', pattern });
+}
+
+// 전역 설정 제외 목록에서 삭제
+export async function removeGlobalBlocklistEntry(pattern: string): Promise<void> {
+    await mutate({ type: 'removeGlobalBlocklistEntry', pattern });
+}
+
+// 기본 제외 선택자 저장
+export async function setDefaultExclusions(selectors: string[]): Promise<void> {
+    await mutate({ type: 'setDefaultExclusions', selectors });
+}
+
+// 모든 사이트에서 일시 중지/다시 시작
+export async function setPaused(paused: boolean): Promise<void> {
+    await mutate({ type: 'setPaused', paused });
+}
+
+// 기본 타이포그래피 설정 생성
+export function createDefaultTypography(fontFamily: string): TypographySettings {
+    return {
+        fontFamily,
+        styles: { ...DEFAULT_SITE_STYLES },
+    };
 }
 
 // 새 사이트 기본 설정 생성
 export function createDefaultSiteSettings(fontFamily: string): SiteSettings {
     return {
         isActive: true,
-        fontFamily,
-        styles: { ...DEFAULT_SITE_STYLES },
+        ...createDefaultTypography(fontFamily),
+    };
+}
+
+// 타이포그래피 설정만 복사 (프리셋 ↔ 사이트 적용용)
+export function copyTypography(source: TypographySettings): TypographySettings {
+    return {
+        fontFamily: source.fontFamily,
+        fallbackFonts: [...(source.fallbackFonts || [])],
+        scriptFonts: { ...(source.scriptFonts || {}) },
+        styles: { ...source.styles },
+        roles: {
+            headings: source.roles?.headings && { ...source.roles.headings },
+            monospace: source.roles?.monospace && { ...source.roles.monospace },
+        },
+        colors: source.colors && { ...source.colors },
+        aids: source.aids && { ...source.aids },
     };
 }
 
@@ -93,51 +829,66 @@ export function extractDomain(url: string): string | null {
 }
 
 // 고유 ID 생성
-function generateId(): string {
+export function generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
 }
 
 // 프리셋 추가
 export async function addPreset(
     name: string,
-    fontFamily: string,
-    styles: SiteSettings['styles']
+    typography: TypographySettings
 ): Promise<StylePreset> {
-    const storage = await getStorage();
     const newPreset: StylePreset = {
         id: generateId(),
         name: name.trim(),
-        fontFamily,
-        styles: { ...styles },
+        ...copyTypography(typography),
     };
-    storage.presets.push(newPreset);
-    await setStorage({ presets: storage.presets });
+    await mutate({ type: 'addPreset', preset: newPreset });
     return newPreset;
 }
 
 // 프리셋 삭제
 export async function removePreset(presetId: string): Promise<void> {
-    const storage = await getStorage();
-    storage.presets = storage.presets.filter(p => p.id !== presetId);
-    await setStorage({ presets: storage.presets });
+    await mutate({ type: 'removePreset', presetId });
 }
 
 // 프리셋 수정
+// expected: 편집을 시작할 때의 프리셋 (다른 곳에서 바뀌었으면 저장하지 않고 false 반환)
 export async function updatePreset(
     presetId: string,
     name: string,
-    fontFamily: string,
-    styles: SiteSettings['styles']
-): Promise<void> {
-    const storage = await getStorage();
-    const index = storage.presets.findIndex(p => p.id === presetId);
-    if (index !== -1) {
-        storage.presets[index] = {
-            ...storage.presets[index],
-            name: name.trim(),
-            fontFamily,
-            styles: { ...styles },
-        };
-        await setStorage({ presets: storage.presets });
-    }
+    typography: TypographySettings,
+    expected?: StylePreset
+): Promise<boolean> {
+    return mutate({ type: 'updatePreset', presetId, name, typography, expected });
+}
+
+// 마지막 변경 되돌리기 (그사이 다른 곳에서 다시 바뀌었으면 false)
+export async function undo(): Promise<boolean> {
+    return mutate({ type: 'undo' });
+}
+
+// 마지막으로 되돌린 변경 다시 실행
+export async function redo(): Promise<boolean> {
+    return mutate({ type: 'redo' });
+}
+
+// 휴지통 항목 복원 (같은 규칙 / 프리셋이 이미 있으면 false)
+export async function restoreTrashItem(itemId: string): Promise<boolean> {
+    return mutate({ type: 'restoreTrashItem', itemId });
+}
+
+// 현재 전체 설정을 스냅샷으로 저장 (개수 제한을 넘으면 false)
+export async function createSnapshot(name: string): Promise<boolean> {
+    return mutate({ type: 'createSnapshot', snapshotId: generateId(), name });
+}
+
+// 스냅샷으로 전체 설정 되돌리기 (되돌리기 기록에 남으므로 다시 취소 가능)
+export async function restoreSnapshot(snapshotId: string): Promise<boolean> {
+    return mutate({ type: 'restoreSnapshot', snapshotId });
+}
+
+// 스냅샷 삭제
+export async function removeSnapshot(snapshotId: string): Promise<void> {
+    await mutate({ type: 'removeSnapshot', snapshotId });
 }
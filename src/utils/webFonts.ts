@@ -0,0 +1,185 @@
+import { WebFont } from '../types/storage';
+import { generateId } from './storage';
+
+// 업로드 가능한 폰트 파일 형식
+const FONT_FORMATS: { [extension: string]: string } = {
+    woff2: 'woff2',
+    woff: 'woff',
+    ttf: 'truetype',
+    otf: 'opentype',
+};
+
+export const FONT_FILE_ACCEPT = Object.keys(FONT_FORMATS).map(ext => `.${ext}`).join(',');
+
+// CSS 문자열용 이스케이프
+function escapeCSSString(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function readFileAsDataURL(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
+
+// 폰트 파일 → 웹 폰트 (data URL로 @font-face 생성)
+export async function createWebFontFromFile(file: File, family: string): Promise<WebFont> {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    const format = FONT_FORMATS[extension];
+    if (!format) {
+        throw new Error(`지원하지 않는 폰트 형식입니다: .${extension}`);
+    }
+
+    const dataUrl = await readFileAsDataURL(file);
+    const cssText = `@font-face {
+  font-family: "${escapeCSSString(family)}";
+  src: url("${dataUrl}") format("${format}");
+  font-display: swap;
+}`;
+
+    return {
+        id: generateId(),
+        family,
+        source: 'file',
+        cssText,
+        label: file.name,
+        size: cssText.length,
+    };
+}
+
+// 파일 이름에서 폰트 이름 추정 ("Pretendard-Regular.woff2" → "Pretendard")
+export function guessFamilyFromFileName(fileName: string): string {
+    return fileName
+        .replace(/\.[^.]+$/, '')
+        .replace(/[-_ ](thin|extralight|light|regular|medium|semibold|bold|extrabold|black|italic)$/i, '')
+        .trim();
+}
+
+// @font-face 블록만 추출 (다른 규칙은 페이지에 주입하지 않음)
+function extractFontFaceBlocks(cssText: string): string[] {
+    const withoutComments = cssText.replace(/\/\*[\s\S]*?\*\//g, '');
+    return withoutComments.match(/@font-face\s*\{[^}]*\}/gi) || [];
+}
+
+function getFontFaceFamily(block: string): string | null {
+    const match = block.match(/font-family\s*:\s*(["']?)([^;"'}]+)\1/i);
+    return match ? match[2].trim() : null;
+}
+
+// 상대 경로 url()을 스타일시트 기준 절대 경로로 변환
+function resolveFontUrls(block: string, baseUrl: string): string {
+    return block.replace(/url\(\s*(["']?)([^"')]+)\1\s*\)/gi, (original, _quote, url: string) => {
+        if (url.startsWith('data:')) return original;
+        try {
+            return `url("${new URL(url, baseUrl).href}")`;
+        } catch {
+            return original;
+        }
+    });
+}
+
+// @font-face 블록을 폰트 이름별 웹 폰트로 묶기
+function groupFontFaces(blocks: string[], source: WebFont['source'], label: string): WebFont[] {
+    const byFamily = new Map<string, string[]>();
+
+    for (const block of blocks) {
+        const family = getFontFaceFamily(block);
+        if (!family) continue;
+        byFamily.set(family, [...(byFamily.get(family) || []), block]);
+    }
+
+    return [...byFamily.entries()].map(([family, familyBlocks]) => {
+        const cssText = familyBlocks.join('\n');
+        return {
+            id: generateId(),
+            family,
+            source,
+            cssText,
+            label,
+            size: cssText.length,
+        };
+    });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const WEB_FONT_SOURCES: WebFont['source'][] = ['file', 'url', 'css'];
+
+// 폰트 파일 주소는 data: 또는 https:만 허용
+function hasSafeFontUrls(block: string): boolean {
+    const urls = [...block.matchAll(/url\(\s*(["']?)([^"')]*)\1\s*\)/gi)].map(match => match[2].trim());
+    return urls.length > 0 && urls.every(url => /^(data:|https:)/i.test(url));
+}
+
+// 주소가 안전한 블록만 남김 (상대 경로, http: 등은 사용자가 보고 있는 페이지 기준으로 불러오게 되므로 제외)
+function pickSafeFontFaces(blocks: string[]): string[] {
+    const safeBlocks = blocks.filter(hasSafeFontUrls);
+    if (blocks.length > 0 && safeBlocks.length === 0) {
+        throw new Error('폰트 파일 주소는 https: 또는 data: URL만 사용할 수 있습니다.');
+    }
+    return safeBlocks;
+}
+
+// 설정 파일 등 외부에서 온 웹 폰트 다시 만들기 (올바르지 않으면 null)
+// 페이지마다 불러오는 값이므로 같은 이름의 @font-face 블록만 남기고 나머지 CSS는 버림
+export function sanitizeWebFont(raw: unknown): WebFont | null {
+    if (!isObject(raw) || typeof raw.family !== 'string' || typeof raw.cssText !== 'string') {
+        return null;
+    }
+
+    const family = raw.family;
+    const blocks = extractFontFaceBlocks(raw.cssText)
+        .filter(block => getFontFaceFamily(block) === family && hasSafeFontUrls(block));
+    if (!family || blocks.length === 0) return null;
+
+    const cssText = blocks.join('\n');
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+        family,
+        source: WEB_FONT_SOURCES.includes(raw.source as WebFont['source']) ? raw.source as WebFont['source'] : 'css',
+        cssText,
+        label: typeof raw.label === 'string' ? raw.label : '@font-face',
+        size: cssText.length,
+    };
+}
+
+// 붙여넣은 @font-face 블록 → 웹 폰트
+export function createWebFontsFromCSS(cssText: string): WebFont[] {
+    const fonts = groupFontFaces(pickSafeFontFaces(extractFontFaceBlocks(cssText)), 'css', '@font-face');
+    if (fonts.length === 0) {
+        throw new Error('@font-face 규칙을 찾을 수 없습니다.');
+    }
+    return fonts;
+}
+
+// 폰트 스타일시트 URL (예: Google Fonts) → 웹 폰트
+export async function createWebFontsFromURL(url: string): Promise<WebFont[]> {
+    let stylesheetUrl: URL;
+    try {
+        stylesheetUrl = new URL(url);
+    } catch {
+        throw new Error('올바른 URL이 아닙니다.');
+    }
+
+    if (stylesheetUrl.protocol !== 'https:') {
+        throw new Error('https URL만 사용할 수 있습니다.');
+    }
+
+    const response = await fetch(stylesheetUrl.href);
+    if (!response.ok) {
+        throw new Error(`스타일시트를 불러오지 못했습니다. (${response.status})`);
+    }
+
+    const blocks = pickSafeFontFaces(extractFontFaceBlocks(await response.text())
+        .map(block => resolveFontUrls(block, stylesheetUrl.href)));
+    const fonts = groupFontFaces(blocks, 'url', stylesheetUrl.href);
+    if (fonts.length === 0) {
+        throw new Error('@font-face 규칙을 찾을 수 없습니다.');
+    }
+    return fonts;
+}
@@ -1,11 +1,37 @@
-import { defineConfig } from 'vite'
+import { defineConfig, build, Plugin, Rollup } from 'vite'
 import react from '@vitejs/plugin-react'
 import { crx } from '@crxjs/vite-plugin'
 import manifest from './manifest.json'
 
+// 페이지(MAIN world) 훅은 crxjs 로더로 넣으면 페이지 주소 기준 상대 경로로 import하므로 불러오지 못하고,
+// 불러오더라도 비동기라 페이지 스크립트보다 늦음
+// 그래서 import 없는 IIFE 파일 하나로 따로 묶고, 백그라운드가 registerContentScripts로 등록함
+const PAGE_HOOK_ENTRY = 'src/content/pageHook.ts'
+const PAGE_HOOK_FILE = 'pageHook.js'    // src/background/pageHook.ts에서 등록
+
+function pageHookScript(): Plugin {
+    return {
+        name: 'readable-page-hook',
+        apply: 'build',
+        async generateBundle() {
+            const result = await build({
+                configFile: false,
+                logLevel: 'warn',
+                build: {
+                    write: false,
+                    lib: { entry: PAGE_HOOK_ENTRY, formats: ['iife'], name: 'ReadablePageHook' },
+                },
+            })
+            const [{ output: [chunk] }] = (Array.isArray(result) ? result : [result]) as Rollup.RollupOutput[]
+            this.emitFile({ type: 'asset', fileName: PAGE_HOOK_FILE, source: chunk.code })
+        },
+    }
+}
+
 export default defineConfig({
     plugins: [
         react(),
         crx({ manifest }),
+        pageHookScript(),
     ],
 })